@@ -0,0 +1,107 @@
+import { encodePacket } from '../src/encoder';
+import {
+  UltrasonicDataParser,
+  PACKET_TYPE_DATA,
+  PACKET_TYPE_METADATA,
+} from '../src/parser';
+
+// Throughput benchmark of the packet framer.
+//
+// usage: tsx scripts/bench-parser.ts [megabytes]
+//
+// A synthetic stream of 64-channel scans is fed to the parser in
+// randomly sized chunks, once clean and once with garbage bytes
+// between packets (a noisy link that forces resync).
+
+const NUM_SAMPLES = 800; // 40us window at 20 samples/us
+const CHUNK_MAX = 65536; // socket reads are up to 64 KiB
+
+const buildScan = (scanId: number, numSteps: number): Uint8Array[] => {
+  const jconf = {
+    name: 'bench',
+    captureStartUs: 40,
+    captureEndUs: 80,
+    angles: [{ degree: 0, steps: new Array(numSteps).fill(0) }],
+    rxApodization: new Array(64).fill(1),
+  };
+  const json = JSON.stringify(jconf);
+  const packets = [
+    encodePacket(
+      PACKET_TYPE_METADATA,
+      scanId,
+      new TextEncoder().encode(json.padEnd(Math.ceil(json.length / 4) * 4, ' '))
+    ),
+  ];
+
+  for (let step = 0; step < numSteps; step++) {
+    for (let channel = 0; channel < 64; channel++) {
+      const payload = new Uint8Array(4 + (NUM_SAMPLES / 8) * 10);
+      payload.set([0, step, channel, 0]);
+      for (let i = 4; i < payload.length; i++) {
+        payload[i] = (i * 31 + channel) & 0xff;
+      }
+      packets.push(encodePacket(PACKET_TYPE_DATA, scanId, payload));
+    }
+  }
+  return packets;
+};
+
+const buildStream = (megabytes: number, noise: boolean): Uint8Array => {
+  const parts: Uint8Array[] = [];
+  let total = 0;
+  let scanId = 1;
+  while (total < megabytes * 1024 * 1024) {
+    for (const packet of buildScan(scanId++, 4)) {
+      if (noise) {
+        const garbage = new Uint8Array(Math.floor(Math.random() * 64));
+        for (let i = 0; i < garbage.length; i++) {
+          garbage[i] = Math.floor(Math.random() * 256);
+        }
+        parts.push(garbage);
+        total += garbage.length;
+      }
+      parts.push(packet);
+      total += packet.length;
+    }
+  }
+
+  const stream = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    stream.set(part, offset);
+    offset += part.length;
+  }
+  return stream;
+};
+
+const run = (label: string, stream: Uint8Array): void => {
+  const parser = new UltrasonicDataParser({ scanTimeoutMs: 0 });
+  let scans = 0;
+  parser.onScanComplete = () => scans++;
+
+  // silence per-packet logging of the parser while measuring
+  const log = console.log;
+  console.log = () => undefined;
+
+  const start = process.hrtime.bigint();
+  let offset = 0;
+  while (offset < stream.length) {
+    const size = 1 + Math.floor(Math.random() * CHUNK_MAX);
+    parser.processData(stream.subarray(offset, offset + size));
+    offset += size;
+  }
+  const ms = Number(process.hrtime.bigint() - start) / 1e6;
+
+  console.log = log;
+  const mb = stream.length / 1024 / 1024;
+  console.log(
+    `${label}: ${mb.toFixed(1)} MB in ${ms.toFixed(0)} ms, ${(
+      (mb * 1000) /
+      ms
+    ).toFixed(1)} MB/s, ${scans} scans`
+  );
+};
+
+const megabytes = Number(process.argv[2]) || 16;
+run('clean', buildStream(megabytes, false));
+run('noisy', buildStream(megabytes, true));
@@ -0,0 +1,59 @@
+import { UltrasonicDataParser } from '../src/parser';
+import { CaptureReplayTransport } from '../src/file-transport';
+
+// Feeds a capture file (see src/capture.ts) through the parser again.
+//
+// usage: tsx scripts/replay-capture.ts <file.rbcap> [--max] [--verbose]
+//
+// The chunks keep their recorded receive times, with --max they are not
+// spaced as recorded. Every scan is reported as it ends, the parser
+// statistics at the end of the file.
+
+const args = process.argv.slice(2);
+const file = args.find(arg => !arg.startsWith('--'));
+if (!file) {
+  console.error(
+    'usage: tsx scripts/replay-capture.ts <file.rbcap> [--max] [--verbose]'
+  );
+  process.exit(1);
+}
+const speed = args.indexOf('--max') >= 0 ? 'max' : 'original';
+
+// the parser logs every packet, only wanted with --verbose
+const log = console.log;
+if (args.indexOf('--verbose') < 0) console.log = () => undefined;
+
+const parser = new UltrasonicDataParser();
+const transport = new CaptureReplayTransport(file, speed);
+
+parser.onScanComplete = scan => {
+  const { timing } = scan;
+  log(
+    `scan ${scan.scanId} ${scan.reason}${scan.partial ? ', partial' : ''}:`,
+    `${scan.missing.length} packets missing,`,
+    `${timing.bytes} bytes in ${timing.durationMs.toFixed(1)} ms,`,
+    `longest gap ${timing.maxGapMs.toFixed(1)} ms`
+  );
+};
+parser.onScanSuperseded = scan =>
+  log(`scan ${scan.scanId} superseded, ${scan.missing.length} packets missing`);
+parser.onParseError = error => log('parse error:', error);
+parser.onRetransmitRequest = request =>
+  log(
+    `scan ${request.scanId} retransmit request ${request.attempt},`,
+    `${request.missing.length} missing (not sent, this is a replay)`
+  );
+
+transport.onConnect = () => log(`replaying ${transport.description}`);
+transport.onData = (data, receivedAt) => parser.processData(data, receivedAt);
+transport.onError = err => {
+  log(`cannot replay ${file}:`, err.message);
+  process.exitCode = 1;
+};
+transport.onClose = () => {
+  parser.interruptScan();
+  log('parser stats', parser.getStats());
+  parser.reset();
+};
+
+transport.connect();
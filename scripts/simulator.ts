@@ -0,0 +1,51 @@
+import { RongbukSimulator } from '../src/simulator';
+import type { SimulatorOptions } from '../src/simulator';
+
+// Runs a simulated Rongbuk device, see src/simulator.ts.
+//
+// usage: tsx scripts/simulator.ts [--port 7332] [--name rongbuk-simulator]
+//          [--loss 0.05] [--corrupt 0.01] [--response-delay ms]
+//          [--packet-delay ms] [--seed n] [--no-advertise]
+//
+// On the default port and advertised on bonjour it is found by Refresh
+// like a device; otherwise add it by address in the app.
+
+const args = process.argv.slice(2);
+
+const value = (flag: string): string | undefined => {
+  const i = args.indexOf(flag);
+  return i >= 0 ? args[i + 1] : undefined;
+};
+
+const number = (flag: string): number | undefined => {
+  const text = value(flag);
+  if (text === undefined) return undefined;
+  const n = Number(text);
+  if (Number.isNaN(n)) {
+    console.error(`${flag} takes a number, got ${text}`);
+    process.exit(1);
+  }
+  return n;
+};
+
+const options: SimulatorOptions = {
+  port: number('--port'),
+  name: value('--name'),
+  advertise: args.indexOf('--no-advertise') < 0,
+  lossRate: number('--loss'),
+  corruptRate: number('--corrupt'),
+  responseDelayMs: number('--response-delay'),
+  packetDelayMs: number('--packet-delay'),
+  seed: number('--seed'),
+};
+
+const simulator = new RongbukSimulator(options);
+simulator.onMessage = message => console.log('received', message);
+simulator.start().catch(err => {
+  console.error('cannot start the simulator:', err.message);
+  process.exit(1);
+});
+
+process.on('SIGINT', () => {
+  simulator.stop().then(() => process.exit(0));
+});
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import {
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  TextField,
+} from '@mui/material';
+
+import type { DeviceAddress } from './types/devices';
+import { DEFAULT_TCP_PORT } from './device-commands';
+
+interface AddDeviceDialogProps {
+  open: boolean;
+  onClose: () => void;
+  // rejects with the reason if the device didn't answer
+  onAdd: (address: DeviceAddress) => Promise<void>;
+}
+
+const AddDeviceDialog: React.FC<AddDeviceDialogProps> = ({
+  open,
+  onClose,
+  onAdd,
+}) => {
+  const [host, setHost] = useState('');
+  const [port, setPort] = useState(DEFAULT_TCP_PORT.toString());
+  const [adding, setAdding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const portNumber = Number(port);
+  // IPv6 addresses may be given in brackets. whether the host exists is
+  // up to the probe of the main process.
+  const hostname = host.trim().replace(/^\[(.*)\]$/, '$1');
+  const isHostValid = hostname !== '' && !/[\s/[\]]/.test(hostname);
+  const isPortValid =
+    Number.isInteger(portNumber) && portNumber > 0 && portNumber < 65536;
+
+  const handleAdd = () => {
+    setAdding(true);
+    setError(null);
+    onAdd({ host: hostname, port: portNumber }).then(
+      () => {
+        setAdding(false);
+        setHost('');
+        onClose();
+      },
+      (err: Error) => {
+        setAdding(false);
+        setError(err.message);
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onClose={adding ? undefined : onClose}>
+      <DialogTitle>Add device by address</DialogTitle>
+      <DialogContent>
+        <TextField
+          autoFocus
+          fullWidth
+          margin="dense"
+          label="IP address or hostname"
+          value={host}
+          disabled={adding}
+          onChange={e => setHost(e.target.value)}
+          error={host !== '' && !isHostValid}
+        />
+        <TextField
+          fullWidth
+          margin="dense"
+          label="Port"
+          value={port}
+          disabled={adding}
+          onChange={e => setPort(e.target.value)}
+          error={!isPortValid}
+          helperText={error ?? (isPortValid ? ' ' : 'from 1 to 65535')}
+          FormHelperTextProps={{ error: error !== null || !isPortValid }}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={adding}>
+          Cancel
+        </Button>
+        <Button
+          onClick={handleAdd}
+          disabled={adding || !isHostValid || !isPortValid}
+          startIcon={adding && <CircularProgress size={14} color="inherit" />}
+        >
+          {adding ? 'Checking...' : 'Add'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default AddDeviceDialog;
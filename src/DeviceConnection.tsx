@@ -12,29 +12,48 @@ import {
   Toolbar,
   Stack,
   CircularProgress,
+  Select,
+  MenuItem,
+  IconButton,
+  Tooltip,
 } from '@mui/material';
 import {
   Refresh as RefreshIcon,
   Wifi as ConnectIcon,
   WifiOff as DisconnectIcon,
+  Add as AddIcon,
+  DeleteOutline as RemoveIcon,
 } from '@mui/icons-material';
 
-import type { RongbukDevice } from './types/devices';
+import type { DeviceAddress, RongbukDevice } from './types/devices';
+import AddDeviceDialog from './AddDeviceDialog';
 
 interface RongbukDevicesProps {
   devices: RongbukDevice[];
   onConnect: (device: RongbukDevice) => void;
   onDisconnect: (device: RongbukDevice) => void;
+  onBaudRateChange: (device: RongbukDevice, baudRate: number) => void;
+  // rejects with the reason if the device didn't answer
+  onAddDevice: (address: DeviceAddress) => Promise<void>;
+  // forgets a device added by address
+  onRemoveDevice: (device: RongbukDevice) => void;
   // onRefresh: () => void;
 }
 
+// choices for serial devices, the device firmware sets the actual rate
+const BAUD_RATES = [115200, 230400, 460800, 921600, 2000000];
+
 const RongbukDevices: React.FC<RongbukDevicesProps> = ({
   devices,
   onConnect,
   onDisconnect,
+  onBaudRateChange,
+  onAddDevice,
+  onRemoveDevice,
   // onRefresh,
 }) => {
   const [refreshing, setRefreshing] = useState(false);
+  const [addDialogOpen, setAddDialogOpen] = useState(false);
   const [debouncing, setDebouncing] = useState<boolean>(false);
 
   const debounce = () => {
@@ -48,9 +67,10 @@ const RongbukDevices: React.FC<RongbukDevicesProps> = ({
   //   setTimeout(() => setRefreshing(false), 500);
   // };
 
-  const formatLocation = (location: string | string[]): string => {
+  const formatLocation = (device: RongbukDevice): string => {
+    const { location, port } = device;
     if (Array.isArray(location)) {
-      return location.join(', ');
+      return port ? `${location.join(', ')} port ${port}` : location.join(', ');
     }
     return location;
   };
@@ -160,9 +180,29 @@ const RongbukDevices: React.FC<RongbukDevicesProps> = ({
                       </Box>
                     </TableCell>
                     <TableCell>
-                      <Typography color="text.secondary" variant="body2">
-                        {formatLocation(device.location)}
-                      </Typography>
+                      <Box display="flex" alignItems="center" gap={1}>
+                        <Typography color="text.secondary" variant="body2">
+                          {formatLocation(device)}
+                        </Typography>
+                        {typeof device.location === 'string' &&
+                          !device.replay && (
+                          <Select
+                            size="small"
+                            variant="standard"
+                            value={device.baudRate ?? BAUD_RATES[0]}
+                            disabled={device.connectionState !== 'DISCONNECTED'}
+                            onChange={e =>
+                              onBaudRateChange(device, Number(e.target.value))
+                            }
+                          >
+                            {BAUD_RATES.map(baudRate => (
+                              <MenuItem key={baudRate} value={baudRate}>
+                                {baudRate} baud
+                              </MenuItem>
+                            ))}
+                          </Select>
+                        )}
+                      </Box>
                     </TableCell>
                     <TableCell align="right">
                       <Stack
@@ -198,7 +238,12 @@ const RongbukDevices: React.FC<RongbukDevicesProps> = ({
                             debounce();
                             onDisconnect(device);
                           }}
-                          disabled={!isConnected || isTransitioning}
+                          // also stops connecting, or retrying a lost connection
+                          disabled={
+                            !(isConnected || isConnecting) ||
+                            isDisconnecting ||
+                            debouncing
+                          }
                           startIcon={
                             isDisconnecting ? (
                               <CircularProgress size={14} color="inherit" />
@@ -210,6 +255,21 @@ const RongbukDevices: React.FC<RongbukDevicesProps> = ({
                         >
                           {isDisconnecting ? 'Disconnecting...' : 'Disconnect'}
                         </Button>
+                        {device.saved && (
+                          <Tooltip title="Forget this device">
+                            <span>
+                              <IconButton
+                                size="small"
+                                onClick={() => onRemoveDevice(device)}
+                                disabled={
+                                  device.connectionState !== 'DISCONNECTED'
+                                }
+                              >
+                                <RemoveIcon fontSize="small" />
+                              </IconButton>
+                            </span>
+                          </Tooltip>
+                        )}
                       </Stack>
                     </TableCell>
                   </TableRow>
@@ -220,17 +280,34 @@ const RongbukDevices: React.FC<RongbukDevicesProps> = ({
         </Table>
       </TableContainer>
 
-      {/* Device count */}
-      {devices.length > 0 && (
-        <Typography
-          mt={2}
-          textAlign="right"
-          variant="body2"
-          color="text.secondary"
+      <Box
+        mt={2}
+        display="flex"
+        alignItems="center"
+        justifyContent="space-between"
+      >
+        {/* for devices bonjour can't find, see docs/bonjour.md */}
+        <Button
+          size="small"
+          startIcon={<AddIcon />}
+          onClick={() => setAddDialogOpen(true)}
         >
-          {devices.length} device{devices.length !== 1 ? 's' : ''} found
-        </Typography>
-      )}
+          Add device by address
+        </Button>
+
+        {/* Device count */}
+        {devices.length > 0 && (
+          <Typography variant="body2" color="text.secondary">
+            {devices.length} device{devices.length !== 1 ? 's' : ''} found
+          </Typography>
+        )}
+      </Box>
+
+      <AddDeviceDialog
+        open={addDialogOpen}
+        onClose={() => setAddDialogOpen(false)}
+        onAdd={onAddDevice}
+      />
     </Box>
   );
 };
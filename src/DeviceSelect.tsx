@@ -0,0 +1,37 @@
+import React from 'react';
+import { FormControl, InputLabel, MenuItem, Select } from '@mui/material';
+
+interface DeviceSelectProps {
+  // names of the devices to choose from
+  devices: string[];
+  value: string | null;
+  onChange: (device: string) => void;
+}
+
+/**
+ * chooses the device whose scans and diagnostics are shown
+ */
+const DeviceSelect: React.FC<DeviceSelectProps> = ({
+  devices,
+  value,
+  onChange,
+}) => (
+  <FormControl size="small" sx={{ minWidth: 200, my: 1 }}>
+    <InputLabel id="device-select-label">Device</InputLabel>
+    <Select
+      labelId="device-select-label"
+      label="Device"
+      value={value ?? ''}
+      disabled={devices.length === 0}
+      onChange={e => onChange(e.target.value as string)}
+    >
+      {devices.map(name => (
+        <MenuItem key={name} value={name}>
+          {name}
+        </MenuItem>
+      ))}
+    </Select>
+  </FormControl>
+);
+
+export default DeviceSelect;
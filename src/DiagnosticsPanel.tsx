@@ -0,0 +1,98 @@
+import React from 'react';
+import {
+  Box,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableRow,
+  Typography,
+} from '@mui/material';
+
+import type { LinkHealth, ParserStats } from './parser';
+
+interface DiagnosticsPanelProps {
+  stats: ParserStats | null;
+  health: LinkHealth;
+  // most recent parse errors, newest first
+  errors: string[];
+}
+
+const STAT_LABELS: [keyof ParserStats, string][] = [
+  ['bytesReceived', 'Bytes received'],
+  ['bytesDiscarded', 'Bytes discarded (resync)'],
+  ['packetsReceived', 'Packets received'],
+  ['crcFailures', 'CRC failures'],
+  ['unknownPackets', 'Unknown packets'],
+  ['duplicatePackets', 'Duplicate packets'],
+  ['outOfScanPackets', 'Out-of-scan packets'],
+  ['jsonFailures', 'Invalid JSON or metadata'],
+  ['retransmitRequests', 'Retransmit requests'],
+];
+
+const getHealthColor = (health: LinkHealth) => {
+  switch (health) {
+    case 'HEALTHY':
+      return 'success';
+    case 'DEGRADED':
+      return 'warning';
+    case 'IDLE':
+    default:
+      return 'default';
+  }
+};
+
+const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({
+  stats,
+  health,
+  errors,
+}) => {
+  return (
+    <Box mt={2}>
+      <Box display="flex" alignItems="center" gap={1} mb={2}>
+        <Typography variant="body2" color="text.secondary">
+          Link
+        </Typography>
+        <Chip size="small" label={health} color={getHealthColor(health)} />
+      </Box>
+
+      <TableContainer component={Box}>
+        <Table size="small">
+          <TableBody>
+            {STAT_LABELS.map(([key, label]) => (
+              <TableRow key={key}>
+                <TableCell sx={{ color: 'text.secondary', width: '50%' }}>
+                  {label}
+                </TableCell>
+                <TableCell align="right">
+                  {stats ? stats[key].toLocaleString() : '-'}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {errors.length > 0 && (
+        <Box mt={2}>
+          <Typography variant="body2" color="text.secondary" mb={1}>
+            Recent parse errors
+          </Typography>
+          {errors.map((error, index) => (
+            <Typography
+              key={index}
+              variant="caption"
+              component="div"
+              sx={{ fontFamily: 'monospace' }}
+            >
+              {error}
+            </Typography>
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default DiagnosticsPanel;
@@ -9,21 +9,107 @@ import {
   Button,
   CircularProgress,
   LinearProgress,
+  Snackbar,
+  Alert,
 } from '@mui/material';
 
-import { RongbukDevice, Frac } from './types/devices';
+import {
+  RongbukDevice,
+  Frac,
+  StepUpdate,
+  DeviceAddress,
+  DeviceAddResult,
+  DeviceEvent,
+  ScanConfigSubmit,
+} from './types/devices';
 import { IpcRendererEvent } from 'electron';
 
 import DeviceConnection from './DeviceConnection';
-import type { CompleteScanData, ScanConfig } from './parser';
+import type {
+  CompleteScanData,
+  LinkHealth,
+  ParserStats,
+  ScanConfig,
+  ScanTiming,
+  StepData,
+} from './parser';
 import ControlPanel from './ControlPanel';
 import type { JsonConfig } from './ControlPanel';
 
 import { Refresh } from '@mui/icons-material';
 import ScanChart from './ScanChart';
+import type { ScanChartData } from './ScanChart';
+import DiagnosticsPanel from './DiagnosticsPanel';
+import ScanTimingSummary from './ScanTimingSummary';
+import DeviceSelect from './DeviceSelect';
+import SubmitStatus from './SubmitStatus';
+import type { RequestResult } from './device-commands';
+
+// number of parse errors kept for the diagnostics tab
+const MAX_PARSE_ERRORS = 20;
+
+// what became of a scan ended by a lost connection
+const describeInterruptedScan = (data: CompleteScanData): string => {
+  const received = data.angles.reduce(
+    (n, angle) => angle.steps.reduce((m, step) => m + step.channels.length, n),
+    0
+  );
+  if (received === 0) {
+    return `Scan ${data.scanId} was cut off by a lost connection before any data arrived, its data is lost.`;
+  }
+  const total = received + data.missing.length;
+  return `Scan ${data.scanId} was cut off by a lost connection after ${received} of ${total} packets, it is kept as a partial scan.`;
+};
 
 const { ipcRenderer } = window.require('electron');
 
+// the scan shown in Results for one device, and its diagnostics
+interface DeviceResults {
+  scanData: ScanChartData | null;
+  // timing of the last finished scan
+  scanTiming: ScanTiming | null;
+  parserStats: ParserStats | null;
+  linkHealth: LinkHealth;
+}
+
+const noResults: DeviceResults = {
+  scanData: null,
+  scanTiming: null,
+  parserStats: null,
+  linkHealth: 'IDLE',
+};
+
+// packets of the scan in progress of one device
+interface ScanProgress {
+  received: number;
+  total: number;
+}
+
+// scan in progress, steps are added as they complete
+const emptyScan = (config: ScanConfig): ScanChartData => ({
+  config,
+  angles: config.angles.map((angle, index) => ({
+    index,
+    label: angle.label,
+    degree: angle.degree,
+    steps: [] as StepData[],
+  })),
+});
+
+const addStep = (
+  scan: ScanChartData,
+  { angleIndex, step }: StepUpdate
+): ScanChartData => ({
+  ...scan,
+  angles: scan.angles.map(angle => {
+    if (angle.index !== angleIndex) return angle;
+    const steps = angle.steps.filter(s => s.index !== step.index);
+    steps.push(step);
+    steps.sort((a, b) => a.index - b.index);
+    return { ...angle, steps };
+  }),
+});
+
 interface TabPanelProps {
   children?: React.ReactNode;
   index: number;
@@ -84,29 +170,68 @@ const RongbukApp: React.FC = () => {
   // Tab state
   const [currentTab, setCurrentTab] = useState(0);
 
-  // Scan data
+  // Scan data and diagnostics, by device name
   const [scanconfig, setScanConfig] = useState<ScanConfig | null>(null);
-  const [scanData, setScanData] = useState<any>(null);
+  const [results, setResults] = useState<Record<string, DeviceResults>>({});
+  // device shown in Results and Diagnostics
+  const [viewedDevice, setViewedDevice] = useState<string | null>(null);
   const [devices, setDevices] = useState<RongbukDevice[]>([]);
   const [refreshing, setRefreshing] = useState<boolean>(false);
   const [progress, setProgress] = useState<number>(100);
   const [numerator, setNumerator] = useState<number>(0);
   const [denominator, setDenominator] = useState<number>(0);
 
+  // parse errors of all devices, prefixed with the device name
+  const [parseErrors, setParseErrors] = useState<string[]>([]);
+
+  // scan cut off by a lost connection
+  const [scanNotice, setScanNotice] = useState<string | null>(null);
+
+  // devices the last config was submitted to, and their answers
+  const [submittedTo, setSubmittedTo] = useState<string[]>([]);
+  const [submitResults, setSubmitResults] = useState<
+    Record<string, RequestResult>
+  >({});
+  const submitted = useRef<string[]>([]);
+  const submitAnswers = useRef<Record<string, RequestResult>>({});
+
   // Control panel validity state
   const [isControlPanelValid, setIsControlPanelValid] = useState(true);
 
-  const denom = useRef(denominator);
-  useEffect(() => {
-    denom.current = denominator;
-  }, [denominator]);
+  // scans in progress by device, the progress bar shows their sum
+  const scanProgress = useRef<Record<string, ScanProgress>>({});
+
+  const updateProgress = () => {
+    const scans = Object.keys(scanProgress.current).map(
+      name => scanProgress.current[name]
+    );
+    const received = scans.reduce((n, scan) => n + scan.received, 0);
+    const total = scans.reduce((n, scan) => n + scan.total, 0);
+    setNumerator(received);
+    setDenominator(total);
+    if (scans.every(scan => scan.received >= scan.total)) {
+      setProgress(100);
+    } else {
+      setProgress(total > 0 ? (received * 100) / total : 0);
+    }
+  };
+
+  const updateResults = (
+    device: string,
+    update: (prev: DeviceResults) => Partial<DeviceResults>
+  ) => {
+    setResults(prev => {
+      const current = prev[device] ?? noResults;
+      return { ...prev, [device]: { ...current, ...update(current) } };
+    });
+    setViewedDevice(prev => prev ?? device);
+  };
 
   const handleDeviceUpdate = (
     event: IpcRendererEvent,
     device: RongbukDevice
   ) => {
     console.log('device udpate', device);
-    if (typeof device.location === 'string') return;
 
     setDevices(prevDevices => {
       const index = prevDevices.findIndex(x => x.name === device.name);
@@ -124,37 +249,111 @@ const RongbukApp: React.FC = () => {
 
   const handleDeviceScanData = (
     event: IpcRendererEvent,
-    data: CompleteScanData
+    { device, data }: DeviceEvent<CompleteScanData>
   ) => {
-    console.log('scandata', data);
-    setScanData(data);
+    console.log(`${device} scandata`, data);
+    if (data.partial) {
+      console.log(`scan ${data.scanId} is partial, missing`, data.missing);
+    }
+    if (data.reason === 'disconnected') {
+      setScanNotice(`${device}: ${describeInterruptedScan(data)}`);
+    }
+    updateResults(device, () => ({ scanData: data, scanTiming: data.timing }));
+    const scan = scanProgress.current[device];
+    if (scan) scan.received = scan.total;
+    updateProgress();
   };
 
   useEffect(() => {
-    const handleDeviceScanCfg = (event: IpcRendererEvent, cfg: ScanConfig) => {
-      console.log('scancfg', cfg);
+    const handleDeviceScanCfg = (
+      event: IpcRendererEvent,
+      { device, data: cfg }: DeviceEvent<ScanConfig>
+    ) => {
+      console.log(`${device} scancfg`, cfg);
       setScanConfig(cfg);
-      setProgress(0);
-      setNumerator(0);
-      setDenominator(cfg.totalSteps * 64);
+      updateResults(device, () => ({
+        scanData: emptyScan(cfg),
+        scanTiming: null,
+      }));
+      scanProgress.current[device] = {
+        received: 0,
+        total: cfg.totalSteps * cfg.activeChannels.length,
+      };
+      updateProgress();
     };
-    const handleDevicePktRcvd = (event: IpcRendererEvent, rcvd: number) => {
-      setNumerator(rcvd);
-      const den = denom.current;
-      const progr = (rcvd * 100) / den;
-      console.log('pktrcvd, denom, progress', rcvd, den, progr);
-      setProgress(progr);
+    const handleDevicePktRcvd = (
+      event: IpcRendererEvent,
+      { device, data: rcvd }: DeviceEvent<number>
+    ) => {
+      const scan = scanProgress.current[device];
+      if (scan) scan.received = rcvd;
+      updateProgress();
+    };
+
+    const handleDeviceStepData = (
+      event: IpcRendererEvent,
+      { device, data: update }: DeviceEvent<StepUpdate>
+    ) => {
+      updateResults(device, prev => ({
+        scanData: prev.scanData ? addStep(prev.scanData, update) : null,
+      }));
+    };
+
+    const handleParserStats = (
+      event: IpcRendererEvent,
+      { device, data: stats }: DeviceEvent<ParserStats>
+    ) => {
+      updateResults(device, () => ({ parserStats: stats }));
+    };
+    const handleLinkHealth = (
+      event: IpcRendererEvent,
+      { device, data: health }: DeviceEvent<LinkHealth>
+    ) => {
+      updateResults(device, () => ({ linkHealth: health }));
+    };
+    const handleParseError = (
+      event: IpcRendererEvent,
+      { device, data: error }: DeviceEvent<string>
+    ) => {
+      setParseErrors(prev =>
+        [`${device}: ${error}`, ...prev].slice(0, MAX_PARSE_ERRORS)
+      );
+    };
+    const handleSubmitResult = (
+      event: IpcRendererEvent,
+      { device, data: result }: DeviceEvent<RequestResult>
+    ) => {
+      console.log(`${device} submit result`, result);
+      submitAnswers.current[device] = result;
+      setSubmitResults({ ...submitAnswers.current });
+      // no scan is coming if every device refused or didn't answer
+      const answers = submitted.current.map(
+        name => submitAnswers.current[name]
+      );
+      if (answers.every(answer => answer && answer.status !== 'accepted')) {
+        updateProgress();
+      }
     };
 
     ipcRenderer.on('device-update', handleDeviceUpdate);
     ipcRenderer.on('device-scandata', handleDeviceScanData);
     ipcRenderer.on('device-scancfg', handleDeviceScanCfg);
     ipcRenderer.on('device-pktrcvd', handleDevicePktRcvd);
+    ipcRenderer.on('device-stepdata', handleDeviceStepData);
+    ipcRenderer.on('device-parser-stats', handleParserStats);
+    ipcRenderer.on('device-link-health', handleLinkHealth);
+    ipcRenderer.on('device-parse-error', handleParseError);
+    ipcRenderer.on('device-submit-result', handleSubmitResult);
     return () => {
       ipcRenderer.off('device-update', handleDeviceUpdate);
       ipcRenderer.off('device-scandata', handleDeviceScanData);
       ipcRenderer.off('device-scancfg', handleDeviceScanCfg);
       ipcRenderer.off('device-pktrcvd', handleDevicePktRcvd);
+      ipcRenderer.off('device-stepdata', handleDeviceStepData);
+      ipcRenderer.off('device-parser-stats', handleParserStats);
+      ipcRenderer.off('device-link-health', handleLinkHealth);
+      ipcRenderer.off('device-parse-error', handleParseError);
+      ipcRenderer.off('device-submit-result', handleSubmitResult);
     };
   }, []);
 
@@ -166,6 +365,40 @@ const RongbukApp: React.FC = () => {
     setImmediate(() => ipcRenderer.send('user-disconnect-device', device));
   };
 
+  const onDeviceBaudRateChange = (
+    device: RongbukDevice,
+    baudRate: number
+  ): void => {
+    setDevices(prevDevices =>
+      prevDevices.map(x => (x.name === device.name ? { ...x, baudRate } : x))
+    );
+  };
+
+  const onDeviceAdd = (address: DeviceAddress): Promise<void> =>
+    new Promise((resolve, reject) => {
+      const handleResult = (
+        event: IpcRendererEvent,
+        result: DeviceAddResult
+      ) => {
+        if (result.host !== address.host || result.port !== address.port) {
+          return;
+        }
+        ipcRenderer.off('device-add-result', handleResult);
+        if (result.error) {
+          reject(new Error(result.error));
+        } else {
+          resolve();
+        }
+      };
+      ipcRenderer.on('device-add-result', handleResult);
+      ipcRenderer.send('user-add-device', address);
+    });
+
+  const onDeviceRemove = (device: RongbukDevice): void => {
+    setDevices(prevDevices => prevDevices.filter(x => x.name !== device.name));
+    setImmediate(() => ipcRenderer.send('user-remove-device', device));
+  };
+
   const onDeviceRefresh = (): void => {
     setRefreshing(true);
     setTimeout(() => setRefreshing(false), 500);
@@ -177,12 +410,13 @@ const RongbukApp: React.FC = () => {
     setCurrentTab(newValue);
   };
 
-  const isConnected = devices.some(
-    dev => dev.connectionState === 'CONNECTED' && Array.isArray(dev.location)
-  );
+  const isConnected = devices.some(dev => dev.connectionState === 'CONNECTED');
 
   const isScanning = progress !== 100;
 
+  const resultDevices = Object.keys(results);
+  const viewed = (viewedDevice && results[viewedDevice]) || noResults;
+
   return (
     <div
       style={{
@@ -227,6 +461,7 @@ const RongbukApp: React.FC = () => {
           <Tab label="Devices" {...a11yProps(0)} />
           <Tab label="Configuration" {...a11yProps(1)} />
           <Tab label="Results" {...a11yProps(2)} />
+          <Tab label="Diagnostics" {...a11yProps(3)} />
         </Tabs>
 
         {currentTab == 0 && (
@@ -260,7 +495,19 @@ const RongbukApp: React.FC = () => {
               const config = applyConfigHandler();
               if (config === null) return;
 
-              ipcRenderer.send('user-submit-scan-config', config);
+              submitted.current = devices
+                .filter(dev => dev.connectionState === 'CONNECTED')
+                .map(dev => dev.name);
+              submitAnswers.current = {};
+              setSubmittedTo(submitted.current);
+              setSubmitResults({});
+
+              const submit: ScanConfigSubmit = {
+                config,
+                devices: submitted.current,
+              };
+              ipcRenderer.send('user-submit-scan-config', submit);
+              scanProgress.current = {};
               setProgress(0);
               setNumerator(0);
               setDenominator(0);
@@ -271,6 +518,15 @@ const RongbukApp: React.FC = () => {
         )}
       </Box>
 
+      <Snackbar
+        open={scanNotice !== null}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+      >
+        <Alert severity="warning" onClose={() => setScanNotice(null)}>
+          {scanNotice}
+        </Alert>
+      </Snackbar>
+
       {/* Tab Content */}
       <Box>
         {/* Devices Tab */}
@@ -279,11 +535,15 @@ const RongbukApp: React.FC = () => {
             devices={devices}
             onConnect={onDeviceConnect}
             onDisconnect={onDeviceDisconnect}
+            onBaudRateChange={onDeviceBaudRateChange}
+            onAddDevice={onDeviceAdd}
+            onRemoveDevice={onDeviceRemove}
           />
         </TabPanel>
 
         {/* Configuration Tab */}
         <TabPanel value={currentTab} index={1}>
+          <SubmitStatus devices={submittedTo} results={submitResults} />
           <ControlPanel
             registerResetConfigHandler={registerResetConfigHandler}
             registerApplyConfigHandler={registerApplyConfigHandler}
@@ -294,9 +554,31 @@ const RongbukApp: React.FC = () => {
         {/* Results Tab */}
         <TabPanel value={currentTab} index={2}>
           <Box>
-            <ScanChart scanData={scanData} />
+            <DeviceSelect
+              devices={resultDevices}
+              value={viewedDevice}
+              onChange={setViewedDevice}
+            />
+            {viewed.scanTiming && (
+              <ScanTimingSummary timing={viewed.scanTiming} />
+            )}
+            <ScanChart scanData={viewed.scanData} />
           </Box>
         </TabPanel>
+
+        {/* Diagnostics Tab */}
+        <TabPanel value={currentTab} index={3}>
+          <DeviceSelect
+            devices={resultDevices}
+            value={viewedDevice}
+            onChange={setViewedDevice}
+          />
+          <DiagnosticsPanel
+            stats={viewed.parserStats}
+            health={viewed.linkHealth}
+            errors={parseErrors}
+          />
+        </TabPanel>
       </Box>
     </div>
   );
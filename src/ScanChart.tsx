@@ -13,20 +13,33 @@ import {
 import * as echarts from 'echarts';
 import { CompleteScanData } from './parser';
 
+// a finished scan, or the steps of the scan in progress received so far
+export type ScanChartData = Pick<CompleteScanData, 'config' | 'angles'>;
+
 interface ScanChartProps {
-  scanData: CompleteScanData;
+  scanData: ScanChartData | null;
 }
 
 const initXAxisData: string[] = Array.from({ length: 40 }, (_, i) =>
   (40 + i).toString()
 );
 
+// packed 10-bit, the format of scans without sample format information
+const DEFAULT_ADC_BITS = 10;
+// channel layout of scans saved before the layout was part of ScanConfig
+const DEFAULT_NUM_CHANNELS = 64;
+const CHANNELS_PER_ROW = 16;
+
+const range = (length: number): number[] => Array.from({ length }, (_, i) => i);
+
 const ScanChart: React.FC<ScanChartProps> = ({ scanData }) => {
   // Selection state
   const [selectedAngleIndex, setSelectedAngleIndex] = useState(0);
   const [selectedStepIndex, setSelectedStepIndex] = useState(0);
+  const numChannels = scanData?.config?.numChannels ?? DEFAULT_NUM_CHANNELS;
+  const activeChannels = scanData?.config?.activeChannels ?? range(numChannels);
   const [selectedChannels, setSelectedChannels] = useState<Set<number>>(
-    () => new Set(Array.from({ length: 64 }, (_, i) => i))
+    () => new Set(activeChannels)
   );
 
   const [xAxisData, setxAxisData] = useState<string[]>(initXAxisData);
@@ -35,9 +48,24 @@ const ScanChart: React.FC<ScanChartProps> = ({ scanData }) => {
   const chartRef = useRef<HTMLDivElement>(null);
   const chartInstance = useRef<any>(null);
 
+  // echarts takes a typed array as pairs of values, so samples are copied
+  // into plain arrays; each channel once, dropped with its scan
+  const plainSamples = useRef(new WeakMap<Int16Array, number[]>());
+  const seriesData = (samples: Int16Array): number[] => {
+    let data = plainSamples.current.get(samples);
+    if (!data) {
+      data = Array.from(samples);
+      plainSamples.current.set(samples, data);
+    }
+    return data;
+  };
+
   // Check if we have scan data
   const hasData = scanData && scanData.angles && scanData.angles.length > 0;
 
+  // y-axis covers the full ADC range of the scan
+  const yAxisLimit = 1 << ((scanData?.config?.adcBits ?? DEFAULT_ADC_BITS) - 1);
+
   // Available steps for the selected angle (only if we have data)
   const availableSteps = hasData
     ? scanData.angles[selectedAngleIndex]?.steps || []
@@ -57,7 +85,13 @@ const ScanChart: React.FC<ScanChartProps> = ({ scanData }) => {
     setxAxisData(
       Array.from({ length }, (_, i) => (i * 0.05 + start).toFixed(1).toString())
     );
-  }, [scanData]);
+  }, [scanData?.config]);
+
+  // Select all active channels when the channel layout changes
+  const layoutKey = `${numChannels}:${activeChannels.join()}`;
+  useEffect(() => {
+    setSelectedChannels(new Set(activeChannels));
+  }, [layoutKey]);
 
   // Reset step selection when angle changes
   useEffect(() => {
@@ -132,8 +166,8 @@ const ScanChart: React.FC<ScanChartProps> = ({ scanData }) => {
         nameLocation: 'middle',
         nameGap: 50,
         scale: false,
-        min: -512,
-        max: 512,
+        min: -yAxisLimit,
+        max: yAxisLimit,
       },
       dataZoom: [
         {
@@ -195,7 +229,7 @@ const ScanChart: React.FC<ScanChartProps> = ({ scanData }) => {
   ]);
 
   const getChannelColor = (channel: number): string => {
-    const hue = ((channel * 360) / 64) % 360;
+    const hue = ((channel * 360) / numChannels) % 360;
     return `hsl(${hue}, 70%, 50%)`;
   };
 
@@ -254,7 +288,7 @@ const ScanChart: React.FC<ScanChartProps> = ({ scanData }) => {
         series.push({
           name: `Channel ${channelIndex}`,
           type: 'line',
-          data: channelData.samples,
+          data: seriesData(channelData.samples),
           symbol: 'none',
           lineStyle: { width: 1.5, opacity: 0.8 },
           itemStyle: { color: getChannelColor(channelIndex) },
@@ -269,6 +303,7 @@ const ScanChart: React.FC<ScanChartProps> = ({ scanData }) => {
     chartInstance.current.setOption(
       {
         xAxis: { data: xAxisData },
+        yAxis: { min: -yAxisLimit, max: yAxisLimit },
         series: series,
       },
       {
@@ -289,16 +324,16 @@ const ScanChart: React.FC<ScanChartProps> = ({ scanData }) => {
 
   const handleCheckAll = (checked: boolean) => {
     if (checked) {
-      setSelectedChannels(new Set(Array.from({ length: 64 }, (_, i) => i)));
+      setSelectedChannels(new Set(activeChannels));
     } else {
       setSelectedChannels(new Set());
     }
   };
 
-  const isAllSelected = selectedChannels.size === 64;
+  const isAllSelected = selectedChannels.size === activeChannels.length;
   const isNoneSelected = selectedChannels.size === 0;
   const isSomeSelected =
-    selectedChannels.size > 0 && selectedChannels.size < 64;
+    selectedChannels.size > 0 && selectedChannels.size < activeChannels.length;
 
   return (
     <Box sx={{ p: 2 }}>
@@ -378,15 +413,19 @@ const ScanChart: React.FC<ScanChartProps> = ({ scanData }) => {
       <Box
         sx={{
           display: 'grid',
-          gridTemplateColumns: 'repeat(16, 1fr)',
-          gridTemplateRows: 'repeat(4, 1fr)',
+          gridTemplateColumns: `repeat(${CHANNELS_PER_ROW}, 1fr)`,
+          gridTemplateRows: `repeat(${Math.ceil(
+            numChannels / CHANNELS_PER_ROW
+          )}, 1fr)`,
           gap: 1,
           maxWidth: '800px',
           margin: '0 auto',
         }}
       >
-        {Array.from({ length: 64 }, (_, channelIndex) => {
+        {range(numChannels).map(channelIndex => {
           const isChecked = selectedChannels.has(channelIndex);
+          // disabled receive channels have no data
+          const isActive = activeChannels.indexOf(channelIndex) >= 0;
           return (
             <FormControlLabel
               key={channelIndex}
@@ -394,6 +433,7 @@ const ScanChart: React.FC<ScanChartProps> = ({ scanData }) => {
                 <Checkbox
                   size="small"
                   checked={isChecked}
+                  disabled={!isActive}
                   onChange={e => {
                     handleChannelToggle(channelIndex, e.target.checked);
                   }}
@@ -0,0 +1,45 @@
+import React from 'react';
+import { Box, Typography } from '@mui/material';
+
+import type { ScanTiming } from './parser';
+
+interface ScanTimingSummaryProps {
+  timing: ScanTiming;
+}
+
+const formatMs = (ms: number): string => `${ms.toFixed(1)} ms`;
+
+const formatRate = (bytesPerSecond: number): string =>
+  `${(bytesPerSecond / 1e6).toFixed(2)} MB/s`;
+
+const ScanTimingSummary: React.FC<ScanTimingSummaryProps> = ({ timing }) => {
+  // receive times are epoch based with the default receive clock
+  const items: [string, string][] = [
+    ['Started', new Date(timing.startedAt).toLocaleTimeString()],
+    ['Duration', formatMs(timing.durationMs)],
+    [
+      'First packet after',
+      timing.firstPacketDelayMs === undefined
+        ? '-'
+        : formatMs(timing.firstPacketDelayMs),
+    ],
+    ['Longest gap', formatMs(timing.maxGapMs)],
+    ['Received', `${timing.bytes.toLocaleString()} bytes`],
+    ['Throughput', formatRate(timing.bytesPerSecond)],
+  ];
+
+  return (
+    <Box display="flex" flexWrap="wrap" gap={3} px={2}>
+      {items.map(([label, value]) => (
+        <Box key={label}>
+          <Typography variant="caption" color="text.secondary">
+            {label}
+          </Typography>
+          <Typography variant="body2">{value}</Typography>
+        </Box>
+      ))}
+    </Box>
+  );
+};
+
+export default ScanTimingSummary;
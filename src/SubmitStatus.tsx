@@ -0,0 +1,51 @@
+import React from 'react';
+import { Alert, Box } from '@mui/material';
+
+import type { RequestResult } from './device-commands';
+
+interface SubmitStatusProps {
+  // devices the config was submitted to
+  devices: string[];
+  // answers so far, by device name
+  results: Record<string, RequestResult>;
+}
+
+const describe = (result: RequestResult | undefined) => {
+  if (!result) {
+    return { severity: 'info' as const, text: 'waiting for the device' };
+  }
+  switch (result.status) {
+    case 'accepted':
+      return { severity: 'success' as const, text: 'config accepted' };
+    case 'rejected':
+      return {
+        severity: 'error' as const,
+        text: `config rejected: ${result.error}`,
+      };
+    case 'timeout':
+      return {
+        severity: 'warning' as const,
+        text: `no answer: ${result.error}`,
+      };
+    default:
+      return { severity: 'error' as const, text: `not sent: ${result.error}` };
+  }
+};
+
+/**
+ * what each device answered to the last Submit
+ */
+const SubmitStatus: React.FC<SubmitStatusProps> = ({ devices, results }) => (
+  <Box mt={1}>
+    {devices.map(device => {
+      const { severity, text } = describe(results[device]);
+      return (
+        <Alert key={device} severity={severity} sx={{ mb: 1 }}>
+          {devices.length > 1 ? `${device}: ${text}` : text}
+        </Alert>
+      );
+    })}
+  </Box>
+);
+
+export default SubmitStatus;
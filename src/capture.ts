@@ -0,0 +1,118 @@
+import * as fs from 'fs';
+
+/**
+ * Capture files hold the bytes received from a device exactly as they came
+ * off the connection, chunk by chunk, with the receive time of every chunk,
+ * so a session can be fed through the parser again later (see
+ * CaptureReplayTransport in file-transport.ts and scripts/replay-capture.ts).
+ *
+ * All numbers are little endian.
+ *
+ *   header  'RBKC', u32 version (1)
+ *   chunk   f64 receivedAt (ms, see receiveClock), u32 length, bytes
+ *
+ * Chunks are appended as they arrive; a file cut off by a crash loses its
+ * last, incomplete chunk only.
+ */
+
+export const CAPTURE_MAGIC = 'RBKC';
+export const CAPTURE_VERSION = 1;
+
+const HEADER_SIZE = 8;
+const CHUNK_HEADER_SIZE = 12;
+
+export interface CaptureChunk {
+  receivedAt: number;
+  data: Uint8Array;
+}
+
+export interface Capture {
+  chunks: CaptureChunk[];
+  // the file ended inside a chunk
+  truncated: boolean;
+}
+
+export const encodeCaptureHeader = (): Uint8Array => {
+  const header = new Uint8Array(HEADER_SIZE);
+  header.set(new TextEncoder().encode(CAPTURE_MAGIC));
+  new DataView(header.buffer).setUint32(4, CAPTURE_VERSION, true);
+  return header;
+};
+
+export const encodeCaptureChunk = (
+  data: Uint8Array,
+  receivedAt: number
+): Uint8Array => {
+  const chunk = new Uint8Array(CHUNK_HEADER_SIZE + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setFloat64(0, receivedAt, true);
+  view.setUint32(8, data.length, true);
+  chunk.set(data, CHUNK_HEADER_SIZE);
+  return chunk;
+};
+
+/**
+ * throws if `bytes` is not a capture file of a known version
+ */
+export const decodeCapture = (bytes: Uint8Array): Capture => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const magic = new TextDecoder().decode(bytes.subarray(0, 4));
+  if (bytes.length < HEADER_SIZE || magic !== CAPTURE_MAGIC) {
+    throw new Error('not a capture file');
+  }
+  const version = view.getUint32(4, true);
+  if (version !== CAPTURE_VERSION) {
+    throw new Error(`capture file version ${version} is not supported`);
+  }
+
+  const chunks: CaptureChunk[] = [];
+  let offset = HEADER_SIZE;
+  while (offset + CHUNK_HEADER_SIZE <= bytes.length) {
+    const receivedAt = view.getFloat64(offset, true);
+    const length = view.getUint32(offset + 8, true);
+    const start = offset + CHUNK_HEADER_SIZE;
+    if (start + length > bytes.length) break;
+    chunks.push({ receivedAt, data: bytes.subarray(start, start + length) });
+    offset = start + length;
+  }
+
+  return { chunks, truncated: offset !== bytes.length };
+};
+
+export const readCapture = (file: string): Promise<Capture> =>
+  fs.promises.readFile(file).then(decodeCapture);
+
+/**
+ * Appends received chunks to a new capture file
+ */
+export class CaptureWriter {
+  // writing failed, later chunks are dropped
+  public onError?: (error: Error) => void;
+
+  private stream: fs.WriteStream;
+  private failed = false;
+
+  constructor(public readonly path: string) {
+    this.stream = fs.createWriteStream(path);
+    this.stream.on('error', err => {
+      this.failed = true;
+      this.onError?.(err);
+    });
+    this.stream.write(encodeCaptureHeader());
+  }
+
+  public write(data: Uint8Array, receivedAt: number): void {
+    if (this.failed) return;
+    this.stream.write(encodeCaptureChunk(data, receivedAt));
+  }
+
+  /**
+   * resolves when everything written is in the file
+   */
+  public close(): Promise<void> {
+    return new Promise(resolve => {
+      if (this.failed) resolve();
+      else this.stream.end(() => resolve());
+    });
+  }
+}
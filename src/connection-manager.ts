@@ -0,0 +1,355 @@
+import { receiveClock } from './parser';
+import type { CommandAck, RetransmitRequest } from './parser';
+import type { ConnectionState, RongbukDevice } from './types/devices';
+import type { Transport } from './transport';
+import { TcpTransport } from './tcp-transport';
+import { SerialTransport } from './serial-transport';
+import { CaptureReplayTransport } from './file-transport';
+import { CaptureWriter } from './capture';
+import { encodeRequest, encodeRetransmitRequest } from './device-commands';
+import type { RequestResult } from './device-commands';
+
+// the part of UltrasonicDataParser or ParserWorkerClient used here
+export interface DeviceParser {
+  // false asks to pause the transport until onDrain
+  processData(data: Uint8Array, receivedAt?: number): boolean | void;
+  reset(): void;
+  interruptScan(): void;
+  onDrain?: () => void;
+  onRetransmitRequest?: (request: RetransmitRequest) => void;
+  onCommandAck?: (ack: CommandAck) => void;
+  // the parser can't go on, the connection is closed
+  onFailed?: (error: Error) => void;
+  // frees the parser once its connection is done with it
+  dispose?(): void;
+}
+
+export type TransportFactory = (device: RongbukDevice) => Transport;
+
+/**
+ * the capture file of a replay, serial port for a COM path, TCP to the
+ * first address otherwise
+ */
+export const transportForDevice: TransportFactory = device => {
+  if (device.replay) {
+    return new CaptureReplayTransport(device.replay.file, device.replay.speed);
+  }
+  return typeof device.location === 'string'
+    ? new SerialTransport(device.location, device.baudRate)
+    : new TcpTransport(device.location[0], device.port);
+};
+
+export interface ConnectionManagerOptions {
+  createTransport?: TransportFactory;
+  // reconnect when an open connection is lost, until disconnect()
+  reconnect?: boolean;
+  // delay of the first reconnect attempt, doubled after every failed one
+  reconnectDelayMs?: number;
+  maxReconnectDelayMs?: number;
+  // wait for the ack of a request()
+  ackTimeoutMs?: number;
+}
+
+const DEFAULT_RECONNECT_DELAY_MS = 500;
+const DEFAULT_MAX_RECONNECT_DELAY_MS = 30000;
+const DEFAULT_ACK_TIMEOUT_MS = 5000;
+
+/**
+ * Connects one device at a time and feeds what it sends to `parser`; see
+ * DeviceSessions for several devices.
+ * The manager keeps the connection state of the device, forwards the
+ * retransmit requests of the parser and pauses the transport while the
+ * parser is behind.
+ *
+ * A scan in flight when the connection closes is ended by
+ * parser.interruptScan(). With `reconnect`, a lost connection is retried
+ * with exponential backoff; the device stays CONNECTING meanwhile.
+ *
+ * While recording, the received bytes also go to a capture file, see
+ * capture.ts, until stopRecording() or the device is DISCONNECTED.
+ *
+ * request() sends with a requestId and waits for the ack of the device,
+ * see device-commands.ts.
+ */
+export class ConnectionManager {
+  // the device, with its new connectionState
+  public onStateChange?: (device: RongbukDevice) => void;
+  // connecting failed, the device is DISCONNECTED again
+  public onConnectError?: (device: RongbukDevice, error: Error) => void;
+
+  private currentDevice: RongbukDevice | null = null;
+  private transport: Transport | null = null;
+  private createTransport: TransportFactory;
+  private reconnect: boolean;
+  private reconnectDelayMs: number;
+  private maxReconnectDelayMs: number;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  // failed attempts since the connection was lost, 0 while not retrying
+  private reconnectAttempts = 0;
+  private capture: CaptureWriter | null = null;
+  private ackTimeoutMs: number;
+  private nextRequestId = 1;
+  // resolves the request() waiting for the ack, by requestId
+  private pendingRequests = new Map<number, (result: RequestResult) => void>();
+
+  constructor(
+    public readonly parser: DeviceParser,
+    options: ConnectionManagerOptions = {}
+  ) {
+    this.createTransport = options.createTransport ?? transportForDevice;
+    this.reconnect = options.reconnect ?? false;
+    this.reconnectDelayMs =
+      options.reconnectDelayMs ?? DEFAULT_RECONNECT_DELAY_MS;
+    this.maxReconnectDelayMs =
+      options.maxReconnectDelayMs ?? DEFAULT_MAX_RECONNECT_DELAY_MS;
+    this.ackTimeoutMs = options.ackTimeoutMs ?? DEFAULT_ACK_TIMEOUT_MS;
+
+    parser.onDrain = () => this.transport?.resume();
+    parser.onRetransmitRequest = request => {
+      console.log(
+        `scan ${request.scanId} retransmit request ${request.attempt},`,
+        request.missing.length,
+        'missing'
+      );
+      this.write(encodeRetransmitRequest(request)).catch(err =>
+        console.log('retransmit request not sent', err)
+      );
+    };
+    parser.onCommandAck = ack => this.handleAck(ack);
+    parser.onFailed = err => {
+      console.log(`parser of ${this.currentDevice?.name} failed`, err);
+      this.disconnect();
+    };
+  }
+
+  /**
+   * the connected device, or the last one
+   */
+  public get device(): RongbukDevice | null {
+    return this.currentDevice;
+  }
+
+  public get state(): ConnectionState {
+    return this.currentDevice?.connectionState ?? 'DISCONNECTED';
+  }
+
+  /**
+   * the capture file being written, if recording
+   */
+  public get recording(): string | null {
+    return this.capture?.path ?? null;
+  }
+
+  /**
+   * writes the bytes received from now on to a new capture file `file`,
+   * across reconnects
+   */
+  public startRecording(file: string): void {
+    this.stopRecording();
+    const capture = new CaptureWriter(file);
+    capture.onError = err => {
+      console.log(`recording to ${file} failed`, err);
+      if (this.capture === capture) this.capture = null;
+    };
+    this.capture = capture;
+  }
+
+  /**
+   * resolves when the capture file is complete
+   */
+  public stopRecording(): Promise<void> {
+    const capture = this.capture;
+    this.capture = null;
+    return capture ? capture.close() : Promise.resolve();
+  }
+
+  /**
+   * returns false, doing nothing, unless the current device is
+   * DISCONNECTED
+   */
+  public connect(device: RongbukDevice): boolean {
+    if (this.state !== 'DISCONNECTED') return false;
+
+    this.currentDevice = { ...device };
+    this.reconnectAttempts = 0;
+    this.open();
+    return true;
+  }
+
+  /**
+   * closes the connection to `device` if it is the current one, or stops
+   * connecting to it
+   */
+  public disconnect(device: RongbukDevice = this.currentDevice): void {
+    if (device?.name !== this.currentDevice?.name) return;
+
+    if (this.state === 'CONNECTING') {
+      // the transport never opened, it won't report its close
+      this.clearReconnectTimer();
+      this.reconnectAttempts = 0;
+      const transport = this.transport;
+      this.transport = null;
+      transport?.close();
+      this.setState('DISCONNECTED');
+    } else if (this.transport) {
+      this.setState('DISCONNECTING');
+      this.transport.close();
+    }
+  }
+
+  /**
+   * sends a scan config or command, one line of JSON, to the device
+   */
+  public write(line: string): Promise<void> {
+    if (!this.transport || this.state !== 'CONNECTED') {
+      return Promise.reject(new Error('no device connected'));
+    }
+    return this.transport.write(line);
+  }
+
+  /**
+   * sends a scan config or command with a new requestId, resolves with
+   * the answer of the device; never rejects
+   */
+  public request(request: object): Promise<RequestResult> {
+    const requestId = this.nextRequestId;
+    this.nextRequestId = (this.nextRequestId % 0xffffffff) + 1;
+
+    return new Promise(resolve => {
+      const timer = setTimeout(
+        () =>
+          finish({
+            requestId,
+            status: 'timeout',
+            error: `no answer in ${this.ackTimeoutMs} ms`,
+          }),
+        this.ackTimeoutMs
+      );
+      const finish = (result: RequestResult) => {
+        clearTimeout(timer);
+        this.pendingRequests.delete(requestId);
+        resolve(result);
+      };
+      this.pendingRequests.set(requestId, finish);
+
+      this.write(encodeRequest(request, requestId)).catch((err: Error) =>
+        finish({ requestId, status: 'failed', error: err.message })
+      );
+    });
+  }
+
+  private handleAck(ack: CommandAck): void {
+    const finish = this.pendingRequests.get(ack.requestId);
+    if (!finish) {
+      console.log('ack of no pending request', ack);
+      return;
+    }
+    finish(
+      ack.ok
+        ? { requestId: ack.requestId, status: 'accepted' }
+        : {
+            requestId: ack.requestId,
+            status: 'rejected',
+            error: ack.error ?? 'no reason given',
+          }
+    );
+  }
+
+  // requests can't be answered once the connection is gone
+  private failPendingRequests(error: string): void {
+    this.pendingRequests.forEach((finish, requestId) =>
+      finish({ requestId, status: 'failed', error })
+    );
+  }
+
+  private open(): void {
+    const transport = this.createTransport(this.currentDevice as RongbukDevice);
+    this.transport = transport;
+    if (this.state !== 'CONNECTING') this.setState('CONNECTING');
+
+    // events of a transport replaced by a later connect() are ignored
+    const isCurrent = () => this.transport === transport;
+
+    transport.onConnect = () => {
+      if (!isCurrent()) return;
+      console.log(`connected to ${transport.description}`);
+      this.reconnectAttempts = 0;
+      this.parser.reset();
+      this.setState('CONNECTED');
+    };
+
+    // replays give the recorded receive time
+    transport.onData = (data, receivedAt = receiveClock()) => {
+      if (!isCurrent()) return;
+      this.capture?.write(data, receivedAt);
+      if (this.parser.processData(data, receivedAt) === false) {
+        transport.pause();
+      }
+    };
+
+    transport.onClose = () => {
+      if (!isCurrent()) return;
+      console.log(`connection to ${transport.description} closed`);
+      this.transport = null;
+      // the rest of the scan, if any, is lost with the connection
+      this.parser.interruptScan();
+      this.failPendingRequests('connection closed');
+
+      if (this.reconnect && this.state === 'CONNECTED' && !transport.ended) {
+        this.setState('CONNECTING');
+        this.scheduleReconnect();
+      } else {
+        this.setState('DISCONNECTED');
+      }
+    };
+
+    transport.onError = err => {
+      if (!isCurrent()) return;
+      console.log(`connection to ${transport.description} error`, err);
+      if (this.state !== 'CONNECTING') {
+        transport.close(); // close will follow soon.
+      } else if (this.reconnectAttempts > 0) {
+        this.transport = null;
+        this.scheduleReconnect();
+      } else {
+        this.transport = null;
+        this.setState('DISCONNECTED');
+        this.onConnectError?.(this.currentDevice as RongbukDevice, err);
+      }
+    };
+
+    transport.connect();
+  }
+
+  private scheduleReconnect(): void {
+    const delay = Math.min(
+      this.reconnectDelayMs * 2 ** this.reconnectAttempts,
+      this.maxReconnectDelayMs
+    );
+    this.reconnectAttempts++;
+    console.log(
+      `reconnecting to ${this.currentDevice?.name} in ${delay} ms, attempt ${this.reconnectAttempts}`
+    );
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open();
+    }, delay);
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer !== null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private setState(state: ConnectionState): void {
+    if (!this.currentDevice) return;
+    if (state === 'DISCONNECTED') {
+      this.stopRecording();
+    }
+    this.currentDevice.connectionState = state;
+    this.onStateChange?.({ ...this.currentDevice });
+  }
+}
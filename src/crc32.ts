@@ -0,0 +1,117 @@
+/**
+ * CRC32 as computed by the STM32H7 CRC peripheral with its default setup:
+ * polynomial 0x04c11db7, initial value 0xffffffff, no reflection and no
+ * final xor.
+ *
+ * The firmware feeds the peripheral 32-bit words read from memory, i.e.
+ * every 4 bytes are taken as a little-endian word and shifted in MSB first.
+ * Trailing bytes that do not fill a word are fed as 8-bit writes, in order.
+ */
+
+const CRC32_POLY = 0x04c11db7;
+const CRC32_INIT = 0xffffffff;
+
+// shifts `value` through the crc register `bits` times
+const shift = (value: number, bits: number): number => {
+  let crc = value >>> 0;
+  for (let i = 0; i < bits; i++) {
+    crc = crc & 0x80000000 ? ((crc << 1) ^ CRC32_POLY) >>> 0 : (crc << 1) >>> 0;
+  }
+  return crc;
+};
+
+// slice-by-4 tables, WORD_TABLES[k][b] is the crc of byte b at bits 8k..8k+7
+// of a word, BYTE_TABLE[b] is the crc of a single 8-bit write.
+const WORD_TABLES = [0, 1, 2, 3].map(k =>
+  Uint32Array.from({ length: 256 }, (_, b) => shift(b << (8 * k), 32))
+);
+const BYTE_TABLE = Uint32Array.from({ length: 256 }, (_, b) =>
+  shift(b << 24, 8)
+);
+
+const updateWord = (crc: number, word: number): number => {
+  const x = (crc ^ word) >>> 0;
+  return (
+    (WORD_TABLES[3][x >>> 24] ^
+      WORD_TABLES[2][(x >>> 16) & 0xff] ^
+      WORD_TABLES[1][(x >>> 8) & 0xff] ^
+      WORD_TABLES[0][x & 0xff]) >>>
+    0
+  );
+};
+
+const updateByte = (crc: number, byte: number): number =>
+  ((crc << 8) ^ BYTE_TABLE[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+
+/**
+ * Incremental STM32 CRC32. Bytes may be passed to `update()` in chunks of
+ * any size; word boundaries are counted from the first byte after
+ * construction or `reset()`.
+ */
+export class Stm32Crc32 {
+  private crc = CRC32_INIT;
+  // bytes of a word not yet complete
+  private pending = new Uint8Array(4);
+  private numPending = 0;
+
+  public reset(): this {
+    this.crc = CRC32_INIT;
+    this.numPending = 0;
+    return this;
+  }
+
+  public update(data: Uint8Array): this {
+    let i = 0;
+
+    while (this.numPending > 0 && this.numPending < 4 && i < data.length) {
+      this.pending[this.numPending++] = data[i++];
+    }
+    if (this.numPending === 4) {
+      const p = this.pending;
+      this.crc = updateWord(
+        this.crc,
+        p[0] | (p[1] << 8) | (p[2] << 16) | (p[3] << 24)
+      );
+      this.numPending = 0;
+    }
+
+    let crc = this.crc;
+    const end = i + ((data.length - i) & ~3);
+    for (; i < end; i += 4) {
+      crc = updateWord(
+        crc,
+        data[i] | (data[i + 1] << 8) | (data[i + 2] << 16) | (data[i + 3] << 24)
+      );
+    }
+    this.crc = crc;
+
+    while (i < data.length) {
+      this.pending[this.numPending++] = data[i++];
+    }
+
+    return this;
+  }
+
+  /**
+   * returns the crc of all bytes so far, a trailing partial word is fed as
+   * 8-bit writes. does not change the state, more bytes may follow.
+   */
+  public digest(): number {
+    let crc = this.crc;
+    for (let i = 0; i < this.numPending; i++) {
+      crc = updateByte(crc, this.pending[i]);
+    }
+    return crc >>> 0;
+  }
+}
+
+export const stm32h7_crc32 = (data: Uint32Array): number => {
+  let crc32 = CRC32_INIT;
+  for (let i = 0; i < data.length; i++) {
+    crc32 = updateWord(crc32, data[i]);
+  }
+  return crc32 >>> 0;
+};
+
+export const stm32h7_crc32_bytes = (data: Uint8Array): number =>
+  new Stm32Crc32().update(data).digest();
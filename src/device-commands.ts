@@ -0,0 +1,43 @@
+import type { RetransmitRequest } from './parser';
+
+// port of the sonic service the device announces over bonjour, where
+// configs and commands are sent
+export const DEFAULT_TCP_PORT = 7332;
+
+/**
+ * Commands sent by the host to the device. Like the scan config, every
+ * command is one JSON document terminated by '\n' on the device socket;
+ * commands carry a `command` field, a scan config does not.
+ */
+
+/**
+ * `{"command":"retransmit","scanId":12,"packets":[[0,1,5],[0,1,6]]}`,
+ * packets are `[angleIndex, stepIndex, channelIndex]`.
+ */
+export const encodeRetransmitRequest = (request: RetransmitRequest): string =>
+  JSON.stringify({
+    command: 'retransmit',
+    scanId: request.scanId,
+    packets: request.missing.map(key => key.split('_').map(Number)),
+  }) + '\n';
+
+/**
+ * A scan config or command with a `requestId` is answered by an ack packet
+ * (see PACKET_TYPE_ACK and CommandAck in parser.ts) with the same
+ * `requestId`: `{"requestId":7,"ok":true}`, or `ok` false and the reason
+ * in `error` if the device refused it. Lines without `requestId` are not
+ * acknowledged.
+ */
+export const encodeRequest = (request: object, requestId: number): string =>
+  JSON.stringify({ ...request, requestId }) + '\n';
+
+// 'failed' if the request could not be sent
+export type RequestStatus = 'accepted' | 'rejected' | 'timeout' | 'failed';
+
+export interface RequestResult {
+  // 0 if the request never got one, no connection to the device
+  requestId: number;
+  status: RequestStatus;
+  // the reason given by the device, or why there is no answer
+  error?: string;
+}
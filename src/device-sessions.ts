@@ -0,0 +1,86 @@
+import type { ConnectionState, RongbukDevice } from './types/devices';
+import { ConnectionManager } from './connection-manager';
+import type {
+  ConnectionManagerOptions,
+  DeviceParser,
+} from './connection-manager';
+
+/**
+ * One ConnectionManager and parser per device, so several devices can be
+ * connected at the same time without their data mixing.
+ *
+ * The parser of a device is made by `createParser` when the device is
+ * connected and disposed when it is DISCONNECTED again, retries of a lost
+ * connection keep it; events of the parser tell the device by the closure
+ * made there.
+ */
+export class DeviceSessions<P extends DeviceParser = DeviceParser> {
+  // a device, with its new connectionState
+  public onStateChange?: (device: RongbukDevice) => void;
+  // connecting failed, the device is DISCONNECTED again
+  public onConnectError?: (device: RongbukDevice, error: Error) => void;
+
+  // by device name
+  private sessions = new Map<string, ConnectionManager>();
+
+  constructor(
+    private createParser: (device: RongbukDevice) => P,
+    private options: ConnectionManagerOptions = {}
+  ) {}
+
+  public get(name: string): ConnectionManager | undefined {
+    return this.sessions.get(name);
+  }
+
+  public get connections(): ConnectionManager[] {
+    return [...this.sessions.values()];
+  }
+
+  public state(name: string): ConnectionState {
+    return this.sessions.get(name)?.state ?? 'DISCONNECTED';
+  }
+
+  /**
+   * the CONNECTED devices
+   */
+  public get connected(): RongbukDevice[] {
+    const devices: RongbukDevice[] = [];
+    this.sessions.forEach(connection => {
+      if (connection.state === 'CONNECTED') devices.push(connection.device);
+    });
+    return devices;
+  }
+
+  /**
+   * returns false, doing nothing, unless `device` is DISCONNECTED.
+   * other devices are not affected.
+   */
+  public connect(device: RongbukDevice): boolean {
+    let connection = this.sessions.get(device.name);
+    if (!connection) {
+      connection = new ConnectionManager(
+        this.createParser(device),
+        this.options
+      );
+      connection.onStateChange = device => {
+        this.onStateChange?.(device);
+        if (device.connectionState === 'DISCONNECTED') this.dispose(device);
+      };
+      connection.onConnectError = (device, err) =>
+        this.onConnectError?.(device, err);
+      this.sessions.set(device.name, connection);
+    }
+    return connection.connect(device);
+  }
+
+  public disconnect(device: RongbukDevice): void {
+    this.sessions.get(device.name)?.disconnect(device);
+  }
+
+  // the next connect() makes a new parser
+  private dispose(device: RongbukDevice): void {
+    const connection = this.sessions.get(device.name);
+    this.sessions.delete(device.name);
+    connection?.parser.dispose?.();
+  }
+}
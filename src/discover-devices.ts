@@ -2,6 +2,7 @@ import { SerialPort } from 'serialport';
 import * as Bonjour from 'bonjour';
 
 import type { RongbukDevice } from './types/devices';
+import { DEFAULT_BAUD_RATE } from './serial-transport';
 
 const bonjour = Bonjour.default({ interface: '0.0.0.0' }); // interface setting important!
 
@@ -37,6 +38,7 @@ export default (callback: (device: RongbukDevice) => void): void => {
           // @ts-ignore
           name: port.friendlyName || port.path,
           location: port.path,
+          baudRate: DEFAULT_BAUD_RATE,
         };
 
         // Send to devices window
@@ -0,0 +1,257 @@
+import { stm32h7_crc32_bytes } from './crc32';
+import {
+  PACKET_PREAMBLE,
+  PACKET_TYPE_ACK,
+  PACKET_TYPE_DATA,
+  PACKET_TYPE_METADATA,
+} from './parser';
+import type { CommandAck, DataPacket, ScanConfig } from './parser';
+import {
+  SAMPLE_FORMAT_INT16_LE,
+  SAMPLE_FORMAT_PACKED_10BIT,
+  SAMPLE_FORMAT_PACKED_12BIT,
+  SAMPLE_FORMAT_UINT8,
+  getSampleDecoder,
+} from './sample-formats';
+
+/**
+ * Encoder for the Rongbuk wire format, the inverse of UltrasonicDataParser.
+ *
+ * Used by tests, simulators and fixtures to produce the same bytes the
+ * device firmware sends.
+ */
+
+const SIZEOF_PACKET_PREAMBLE = 4;
+const SIZEOF_PACKET_HEADER_T = 8;
+const SIZEOF_PACKET_CRC = 4;
+
+// fields of a data packet chosen by the sender, the header is derived
+export type DataPacketFields = Pick<
+  DataPacket,
+  'scanId' | 'angleIndex' | 'stepIndex' | 'channelIndex' | 'sampleFormat'
+> & { samples: ArrayLike<number> };
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.min(max, Math.max(min, Math.round(value)));
+
+/**
+ * packs signed samples centered at 0 into 10 bytes per 8 samples, the
+ * inverse of unpack10BitSamples. the last group is padded with 0.
+ */
+export const pack10BitSamples = (samples: ArrayLike<number>): Uint8Array => {
+  const numGroups = Math.ceil(samples.length / 8);
+  const bytes = new Uint8Array(numGroups * 10);
+
+  for (let g = 0; g < numGroups; g++) {
+    const o = g * 10;
+    // each half of a group is 4 samples in 40 bits
+    for (let half = 0; half < 2; half++) {
+      let bits = 0;
+      let numBits = 0;
+      let out = o + half * 5;
+      for (let k = 0; k < 4; k++) {
+        const i = g * 8 + half * 4 + k;
+        const value = i < samples.length ? samples[i] : 0;
+        bits |= clamp(value + 512, 0, 1023) << numBits;
+        numBits += 10;
+        while (numBits >= 8) {
+          bytes[out++] = bits & 0xff;
+          bits >>>= 8;
+          numBits -= 8;
+        }
+      }
+    }
+  }
+
+  return bytes;
+};
+
+/**
+ * packs signed samples into 3 bytes per 2 samples, the inverse of
+ * unpack12BitSamples. an odd last sample is padded with 0.
+ */
+export const pack12BitSamples = (samples: ArrayLike<number>): Uint8Array => {
+  const numGroups = Math.ceil(samples.length / 2);
+  const bytes = new Uint8Array(numGroups * 3);
+
+  for (let g = 0; g < numGroups; g++) {
+    const a = clamp(samples[g * 2] + 2048, 0, 4095);
+    const b = g * 2 + 1 < samples.length ? samples[g * 2 + 1] : 0;
+    const v = clamp(b + 2048, 0, 4095);
+    bytes[g * 3] = a & 0xff;
+    bytes[g * 3 + 1] = (a >>> 8) | ((v & 0x0f) << 4);
+    bytes[g * 3 + 2] = v >>> 4;
+  }
+
+  return bytes;
+};
+
+export const packInt16LESamples = (samples: ArrayLike<number>): Uint8Array => {
+  const bytes = new Uint8Array(samples.length * 2);
+  const view = new DataView(bytes.buffer);
+
+  for (let i = 0; i < samples.length; i++) {
+    view.setInt16(i * 2, clamp(samples[i], -32768, 32767), true);
+  }
+
+  return bytes;
+};
+
+export const packUint8Samples = (samples: ArrayLike<number>): Uint8Array => {
+  const bytes = new Uint8Array(samples.length);
+
+  for (let i = 0; i < samples.length; i++) {
+    bytes[i] = clamp(samples[i] + 128, 0, 255);
+  }
+
+  return bytes;
+};
+
+const packers = new Map<number, (samples: ArrayLike<number>) => Uint8Array>([
+  [SAMPLE_FORMAT_PACKED_10BIT, pack10BitSamples],
+  [SAMPLE_FORMAT_PACKED_12BIT, pack12BitSamples],
+  [SAMPLE_FORMAT_INT16_LE, packInt16LESamples],
+  [SAMPLE_FORMAT_UINT8, packUint8Samples],
+]);
+
+export const packSamples = (
+  sampleFormat: number,
+  samples: ArrayLike<number>
+): Uint8Array => {
+  const pack = packers.get(sampleFormat);
+  if (!pack) {
+    throw new Error(
+      `no packer for sample format 0x${sampleFormat.toString(16)}`
+    );
+  }
+  return pack(samples);
+};
+
+/**
+ * frames a payload: preamble, type and scan id, payload size, payload and
+ * the crc of header and payload. the payload is not padded.
+ */
+export const encodePacket = (
+  packetType: number,
+  scanId: number,
+  payload: Uint8Array
+): Uint8Array => {
+  const headerStart = SIZEOF_PACKET_PREAMBLE;
+  const crcStart = headerStart + SIZEOF_PACKET_HEADER_T + payload.length;
+  const bytes = new Uint8Array(crcStart + SIZEOF_PACKET_CRC);
+  const view = new DataView(bytes.buffer);
+
+  view.setUint32(0, PACKET_PREAMBLE, true);
+  view.setUint32(4, ((scanId << 8) | (packetType & 0xff)) >>> 0, true);
+  view.setUint32(8, payload.length, true);
+  bytes.set(payload, headerStart + SIZEOF_PACKET_HEADER_T);
+  view.setUint32(
+    crcStart,
+    stm32h7_crc32_bytes(bytes.subarray(headerStart, crcStart)),
+    true
+  );
+
+  return bytes;
+};
+
+/**
+ * the metadata JSON the firmware sends for `config`
+ */
+export const encodeMetadataJson = (config: ScanConfig): string => {
+  const sampleFormat = [...packers.keys()].find(
+    format => getSampleDecoder(format)?.name === config.sampleFormat
+  );
+
+  return JSON.stringify({
+    // unknown fields of received metadata go back as they came
+    ...config.extra,
+    name: config.name,
+    captureStartUs: config.captureStartUs,
+    captureEndUs: config.captureEndUs,
+    angles: config.angles.map(angle => ({
+      degree: angle.degree,
+      steps: angle.masks,
+    })),
+    rxApodization: Array.from({ length: config.numChannels }, (_, channel) =>
+      config.activeChannels.indexOf(channel) >= 0 ? 1 : 0
+    ),
+    sampleFormat,
+    pattern: config.pattern,
+    repeat: config.repeat,
+    tail: config.tail,
+  });
+};
+
+/**
+ * JSON is padded with spaces to a whole number of 32-bit words, as the
+ * firmware does
+ */
+export const encodeMetadataPacket = (
+  scanId: number,
+  config: ScanConfig
+): Uint8Array => {
+  const json = encodeMetadataJson(config);
+  const padded = json.padEnd(Math.ceil(json.length / 4) * 4, ' ');
+  return encodePacket(
+    PACKET_TYPE_METADATA,
+    scanId,
+    new TextEncoder().encode(padded)
+  );
+};
+
+/**
+ * the answer of the device to a request, see device-commands.ts
+ */
+export const encodeAckPacket = (ack: CommandAck): Uint8Array =>
+  encodePacket(
+    PACKET_TYPE_ACK,
+    0,
+    new TextEncoder().encode(JSON.stringify(ack))
+  );
+
+export const encodeDataPacket = (packet: DataPacketFields): Uint8Array => {
+  const chunk = packSamples(packet.sampleFormat, packet.samples);
+  const payload = new Uint8Array(4 + chunk.length);
+  payload[0] = packet.angleIndex;
+  payload[1] = packet.stepIndex;
+  payload[2] = packet.channelIndex;
+  payload[3] = packet.sampleFormat;
+  payload.set(chunk, 4);
+  return encodePacket(PACKET_TYPE_DATA, packet.scanId, payload);
+};
+
+/**
+ * all packets of a scan in the order the firmware sends them: metadata,
+ * then every active channel of every step of every angle
+ */
+export const encodeScan = (
+  scanId: number,
+  config: ScanConfig,
+  samplesFor: (
+    angleIndex: number,
+    stepIndex: number,
+    channelIndex: number
+  ) => ArrayLike<number>,
+  sampleFormat: number = SAMPLE_FORMAT_PACKED_10BIT
+): Uint8Array[] => {
+  const packets = [encodeMetadataPacket(scanId, config)];
+
+  config.angles.forEach((angle, angleIndex) => {
+    for (let stepIndex = 0; stepIndex < angle.numSteps; stepIndex++) {
+      for (const channelIndex of config.activeChannels) {
+        packets.push(
+          encodeDataPacket({
+            scanId,
+            angleIndex,
+            stepIndex,
+            channelIndex,
+            sampleFormat,
+            samples: samplesFor(angleIndex, stepIndex, channelIndex),
+          })
+        );
+      }
+    }
+  });
+
+  return packets;
+};
@@ -0,0 +1,202 @@
+import * as fs from 'fs';
+
+import type { Transport } from './transport';
+import { readCapture } from './capture';
+import type { CaptureChunk } from './capture';
+
+// bytes per onData, about what a socket delivers at a time
+const DEFAULT_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Replays a file of bytes received from a device, as fast as they are
+ * parsed. Writes succeed but go nowhere, the file can't answer commands.
+ * The connection closes at the end of the file.
+ */
+export class FileReplayTransport implements Transport {
+  public onConnect?: () => void;
+  public onData?: (data: Uint8Array) => void;
+  public onClose?: () => void;
+  public onError?: (error: Error) => void;
+  public ended = false;
+
+  private stream: fs.ReadStream | null = null;
+  private opened = false;
+
+  constructor(
+    public readonly path: string,
+    private chunkSize: number = DEFAULT_CHUNK_SIZE
+  ) {}
+
+  public get description(): string {
+    return this.path;
+  }
+
+  public connect(): void {
+    if (this.stream) return;
+
+    const stream = fs.createReadStream(this.path, {
+      highWaterMark: this.chunkSize,
+    });
+    this.stream = stream;
+
+    stream.on('open', () => {
+      this.opened = true;
+      this.onConnect?.();
+    });
+    stream.on('data', (data: Buffer) => this.onData?.(data));
+    stream.on('end', () => (this.ended = true));
+    stream.on('error', err => this.onError?.(err));
+    // after the end of the file, close() or an error
+    stream.on('close', () => {
+      this.stream = null;
+      if (this.opened) {
+        this.opened = false;
+        this.onClose?.();
+      }
+    });
+  }
+
+  public write(): Promise<void> {
+    if (!this.opened) {
+      return Promise.reject(new Error(`${this.path} is not open`));
+    }
+    return Promise.resolve();
+  }
+
+  public pause(): void {
+    this.stream?.pause();
+  }
+
+  public resume(): void {
+    this.stream?.resume();
+  }
+
+  public close(): void {
+    this.stream?.destroy();
+  }
+}
+
+// 'original' keeps the gaps between chunks as recorded, 'max' doesn't wait
+export type ReplaySpeed = 'original' | 'max';
+
+/**
+ * Replays a capture file (see capture.ts) chunk by chunk, with the recorded
+ * receive time of every chunk, at the original pace or as fast as the
+ * chunks are parsed. Like FileReplayTransport, writes go nowhere and the
+ * connection closes after the last chunk.
+ */
+export class CaptureReplayTransport implements Transport {
+  public onConnect?: () => void;
+  public onData?: (data: Uint8Array, receivedAt: number) => void;
+  public onClose?: () => void;
+  public onError?: (error: Error) => void;
+  public ended = false;
+
+  private chunks: CaptureChunk[] | null = null;
+  private next = 0;
+  private paused = false;
+  private timer: NodeJS.Timeout | null = null;
+  private immediate: NodeJS.Immediate | null = null;
+  private closed = false;
+
+  constructor(
+    public readonly path: string,
+    public readonly speed: ReplaySpeed = 'original'
+  ) {}
+
+  public get description(): string {
+    return `${this.path} at ${this.speed} speed`;
+  }
+
+  public connect(): void {
+    if (this.chunks || this.closed) return;
+
+    readCapture(this.path).then(
+      capture => {
+        if (this.closed) return;
+        if (capture.truncated) {
+          console.log(`${this.path} is truncated, its last chunk is lost`);
+        }
+        this.chunks = capture.chunks;
+        this.onConnect?.();
+        this.schedule(0);
+      },
+      err => {
+        this.closed = true;
+        this.onError?.(err);
+      }
+    );
+  }
+
+  public write(): Promise<void> {
+    if (!this.chunks || this.closed) {
+      return Promise.reject(new Error(`${this.path} is not open`));
+    }
+    return Promise.resolve();
+  }
+
+  public pause(): void {
+    this.paused = true;
+    this.cancel();
+  }
+
+  public resume(): void {
+    if (!this.paused) return;
+    this.paused = false;
+    // the gap before the next chunk starts over
+    if (this.chunks && !this.closed) this.schedule(this.delay());
+  }
+
+  public close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.cancel();
+    if (this.chunks) this.onClose?.();
+  }
+
+  // recorded gap before the next chunk
+  private delay(): number {
+    if (this.speed === 'max' || this.next === 0) return 0;
+    const chunks = this.chunks as CaptureChunk[];
+    return Math.max(
+      0,
+      chunks[this.next].receivedAt - chunks[this.next - 1].receivedAt
+    );
+  }
+
+  // one chunk per callback, so a fast replay doesn't block the event loop
+  private schedule(delay: number): void {
+    this.cancel();
+    if (delay > 0) {
+      this.timer = setTimeout(() => this.sendNext(), delay);
+    } else {
+      this.immediate = setImmediate(() => this.sendNext());
+    }
+  }
+
+  private sendNext(): void {
+    this.timer = null;
+    this.immediate = null;
+    if (this.paused || this.closed) return;
+
+    const chunks = this.chunks as CaptureChunk[];
+    if (this.next >= chunks.length) {
+      this.ended = true;
+      this.close();
+      return;
+    }
+
+    const { data, receivedAt } = chunks[this.next++];
+    this.onData?.(data, receivedAt);
+    if (!this.paused && !this.closed) {
+      this.schedule(this.next < chunks.length ? this.delay() : 0);
+    }
+  }
+
+  private cancel(): void {
+    if (this.timer !== null) clearTimeout(this.timer);
+    if (this.immediate !== null) clearImmediate(this.immediate);
+    this.timer = null;
+    this.immediate = null;
+  }
+}
@@ -10,9 +10,10 @@ import {
   webContents,
 } from 'electron';
 
-import * as net from 'net';
+import { Worker } from 'worker_threads';
 
 import path from 'path';
+import * as fs from 'fs';
 
 if (process.env.NODE_ENV === 'development') {
 
@@ -25,39 +26,137 @@ if (process.env.NODE_ENV === 'development') {
 
 // import { SerialPort } from 'serialport';
 
-import type { ConnectionState, RongbukDevice } from './types/devices';
-
-import { UltrasonicDataParser } from './parser';
-import type { CompleteScanData, ScanConfig, DataPacket } from './parser';
+import type {
+  ConnectionState,
+  DeviceAddress,
+  DeviceAddResult,
+  DeviceEvent,
+  RongbukDevice,
+  ScanConfigSubmit,
+  StepUpdate,
+} from './types/devices';
+import type { ReplaySpeed } from './file-transport';
+
+import { ParserWorkerClient } from './parser-port';
+import type {
+  CompleteScanData,
+  ScanConfig,
+  StepData,
+  DataPacket,
+  ParserStats,
+  LinkHealth,
+  DeviceStatus,
+} from './parser';
+import { DeviceSessions } from './device-sessions';
+import { SavedDevices } from './saved-devices';
+import { probeTcp } from './tcp-transport';
+import { RongbukSimulator } from './simulator';
+import type { RequestResult } from './device-commands';
+import { saveScanData, scanDataFromComplete } from './saveScanData';
 
 import { error } from 'console';
 import discoverDevices from './discover-devices';
 
-import { JsonConfig } from './ControlPanel';
-
-const parser = new UltrasonicDataParser();
-
-parser.onConfig = (config: ScanConfig) => {
-  console.log('scan config', config);
-  if (mainWindow) {
-    mainWindow.webContents.send('device-scancfg', config);
-  }
+// parser events reach the window with the name of their device
+const sendDeviceEvent = <T>(
+  channel: string,
+  device: RongbukDevice,
+  data: T
+): void => {
+  const event: DeviceEvent<T> = { device: device.name, data };
+  mainWindow?.webContents.send(channel, event);
 };
 
-parser.onPacketReceived = (num: number) => {
-  if (mainWindow) {
-    mainWindow.webContents.send('device-pktrcvd', num);
-  }
+// parsing runs in a worker thread per device, built next to main.js from
+// src/parser-worker.ts
+const createParser = (device: RongbukDevice): ParserWorkerClient => {
+  const parserWorker = new Worker(path.join(__dirname, 'parser-worker.js'));
+  const parser = new ParserWorkerClient(parserWorker);
+
+  parser.onConfig = (config: ScanConfig) => {
+    console.log(`${device.name} scan config`, config);
+    sendDeviceEvent('device-scancfg', device, config);
+  };
+
+  parser.onPacketReceived = (num: number) => {
+    sendDeviceEvent('device-pktrcvd', device, num);
+  };
+
+  parser.onStepComplete = (
+    angleIndex: number,
+    stepIndex: number,
+    step: StepData
+  ) => {
+    const update: StepUpdate = { angleIndex, step };
+    sendDeviceEvent('device-stepdata', device, update);
+  };
+
+  parser.onScanComplete = (data: CompleteScanData) => {
+    console.log(`${device.name} scan complete`, data);
+    sendDeviceEvent('device-scandata', device, data);
+    if (savingScans) saveScan(device, data);
+  };
+
+  parser.onScanSuperseded = (data: CompleteScanData) => {
+    console.log(
+      `${device.name} scan superseded`,
+      data.scanId,
+      data.missing.length,
+      'missing'
+    );
+    sendDeviceEvent('device-scandata', device, data);
+  };
+
+  parser.onParseError = (error: string) => {
+    console.log(`${device.name} parser error`, error);
+    sendDeviceEvent('device-parse-error', device, error);
+  };
+
+  parser.onStats = (stats: ParserStats) => {
+    sendDeviceEvent('device-parser-stats', device, stats);
+  };
+
+  parser.onLinkHealth = (health: LinkHealth) => {
+    console.log(`${device.name} link health`, health);
+    sendDeviceEvent('device-link-health', device, health);
+  };
+
+  parser.onDeviceStatus = (status: DeviceStatus) => {
+    sendDeviceEvent('device-status', device, status);
+  };
+
+  parser.onDeviceLog = (text: string) => {
+    console.log(`${device.name} device log`, text);
+    sendDeviceEvent('device-log', device, text);
+  };
+
+  return parser;
 };
 
-parser.onScanComplete = (data: CompleteScanData) => {
-  console.log('scan complete', data);
-  if (mainWindow) {
-    mainWindow.webContents.send('device-scandata', data);
+// a connection and parser for every connected device. each forwards the
+// retransmit requests of its parser and pauses while its worker is behind.
+// a lost connection is retried until the user disconnects.
+const sessions = new DeviceSessions(createParser, { reconnect: true });
+
+sessions.onStateChange = (device: RongbukDevice) => {
+  const connection = sessions.get(device.name);
+  if (
+    recording &&
+    device.connectionState === 'CONNECTED' &&
+    !device.replay &&
+    !connection.recording
+  ) {
+    connection.startRecording(captureFileFor(device));
   }
+  mainWindow?.webContents.send('device-update', device);
 };
 
-parser.onParseError = () => console.log('parser error');
+sessions.onConnectError = (device: RongbukDevice) => {
+  dialog.showErrorBox(
+    'Error',
+    `Failed to establish a connection to ${device.name} at ${device.location}`
+  );
+};
 
 // Send data through current connection
 // function sendData(data: string | Buffer): boolean {
@@ -130,89 +229,230 @@ if (require('electron-squirrel-startup')) {
 }
 
 let mainWindow: BrowserWindow | null = null;
-let currentDevice: RongbukDevice | null = null;
-let currentSocket: net.Socket | null = null;
-// let currentPort: SerialPort | null = null;
-
-const handleConnectDevice = (device: RongbukDevice | null) => {
-  if (device === null) return;
+// devices added by address
+let savedDevices: SavedDevices | null = null;
+
+// record the raw data of connected devices, see capture.ts
+let recording = false;
+// save completed scans with their timing, see saveScanData.ts
+let savingScans = false;
+
+// next to the scans saved by saveScanData
+const capturesDir = (): string => path.join(process.cwd(), 'data', 'captures');
+
+// captures/<device>-YYYYMMDD-HHMMSS.rbcap
+const captureFileFor = (device: RongbukDevice): string => {
+  const time = new Date()
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace('T', '-')
+    .slice(0, 15);
+  const name = device.name.replace(/[^\w.-]+/g, '_');
+  return path.join(capturesDir(), `${name}-${time}.rbcap`);
+};
 
-  if (currentDevice !== null && currentDevice.connectionState === 'CONNECTED') {
-    mainWindow?.webContents.send('device-update', currentDevice);
-    return;
+const saveScan = (device: RongbukDevice, data: CompleteScanData): void => {
+  try {
+    saveScanData({ ...scanDataFromComplete(data), device: device.name });
+  } catch (err) {
+    console.log(`${device.name} scan ${data.scanId} not saved`, err);
   }
+};
 
-  if (typeof device.location == 'string') {
-    // // com port
-    // currentPort = new SerialPort({
-    //   path: device.location,
-    //   baudRate: 115200,
-    // });
-    // currentPort.on('open', () => {});
-    // currentPort.on('data', data => {});
-    // currentPort.on('close', () => {});
-    // currentPort.on('error', err => {}); // there is .isOpen to differentiate
+const setRecording = (enabled: boolean): void => {
+  recording = enabled;
+  if (enabled) {
+    fs.mkdirSync(capturesDir(), { recursive: true });
+    sessions.connected
+      .filter(device => !device.replay)
+      .forEach(device =>
+        sessions.get(device.name).startRecording(captureFileFor(device))
+      );
   } else {
-    currentDevice = device;
-    currentDevice.connectionState = 'DISCONNECTED';
+    sessions.connections.forEach(connection => connection.stopRecording());
+  }
+};
 
-    let received: number = 0;
-    let timer: NodeJS.Timeout | null = null;
+// a simulated device on a free local port, listed without bonjour
+let simulator: RongbukSimulator | null = null;
 
-    currentSocket = net.createConnection(7332, device.location[0]);
+// some loss, corruption and jitter, to try retransmits without hardware
+const LOSSY_LINK = { lossRate: 0.02, corruptRate: 0.01, packetDelayMs: 1 };
+const PERFECT_LINK = { lossRate: 0, corruptRate: 0, packetDelayMs: 0 };
 
-    currentSocket.on('connect', () => {
-      console.log(`connected to ${device.location[0]}`);
-      currentDevice.connectionState = 'CONNECTED';
-      mainWindow?.webContents.send('device-update', currentDevice);
+const simulatedDevice = (running: RongbukSimulator): RongbukDevice => ({
+  connectionState: 'DISCONNECTED',
+  name: running.name,
+  location: ['127.0.0.1'],
+  port: running.port,
+});
 
-      parser.reset();
-      // TODO: register disconnect function
+const setSimulator = (enabled: boolean, lossy: boolean): void => {
+  if (enabled && !simulator) {
+    const started = new RongbukSimulator({
+      port: 0,
+      host: '127.0.0.1',
+      advertise: false,
+      ...(lossy ? LOSSY_LINK : PERFECT_LINK),
     });
-
-    currentSocket.on('data', data => {
-      parser.processData(new Uint8Array(data));
-      received += data.length;
-
-      if (timer !== null) {
-        clearTimeout(timer);
+    simulator = started;
+    // it may have been turned off again meanwhile
+    started.start().then(
+      () => {
+        if (simulator === started) sendDeviceUpdate(simulatedDevice(started));
+      },
+      (err: Error) => {
+        if (simulator !== started) return;
+        simulator = null;
+        dialog.showErrorBox('Error', `Failed to start the simulator: ${err}`);
       }
-      timer = setTimeout(() => {
-        console.log(`[index.ts] received ${received} bytes`);
-        timer = null;
-      }, 5000);
-    });
+    );
+  } else if (!enabled && simulator) {
+    const stopped = simulator;
+    simulator = null;
+    sessions.disconnect(simulatedDevice(stopped));
+    stopped.stop().then(() => console.log(`simulator ${stopped.name} stopped`));
+  }
+};
 
-    currentSocket.on('close', () => {
-      console.log('tcp connection closed');
-      currentDevice.connectionState = 'DISCONNECTED';
-      currentSocket = null;
-      mainWindow?.webContents.send('device-update', currentDevice);
+// a capture file is connected like a device, named after the file
+const replayCapture = (speed: ReplaySpeed): void => {
+  dialog
+    .showOpenDialog(mainWindow, {
+      title: 'Replay Capture',
+      defaultPath: capturesDir(),
+      filters: [{ name: 'Captures', extensions: ['rbcap'] }],
+      properties: ['openFile'],
+    })
+    .then(({ canceled, filePaths }) => {
+      if (canceled || filePaths.length === 0) return;
+      const file = filePaths[0];
+      const device: RongbukDevice = {
+        connectionState: 'DISCONNECTED',
+        name: `replay ${path.basename(file)}`,
+        location: file,
+        replay: { file, speed },
+      };
+      mainWindow?.webContents.send('device-update', device);
+      handleConnectDevice(device);
     });
+};
 
-    currentSocket.on('error', err => {
-      console.log('tcp connection error', err);
-      if (currentDevice.connectionState === 'CONNECTED') {
-        currentSocket.destroy(); // close will follow soon.
-      } else {
-        currentSocket = null;
-        dialog.showErrorBox(
-          'Error',
-          `Failed to establish a connection to ${device.name} at ${device.location}`
-        );
+// reports a listed device, with its state if it has been connected
+const sendDeviceUpdate = (device: RongbukDevice): void => {
+  const connection = sessions.get(device.name);
+  if (connection) {
+    device.connectionState = connection.state;
+  }
+  mainWindow?.webContents.send('device-update', device);
+};
+
+const handleAddDevice = (address: DeviceAddress): void => {
+  const reply = (error?: string) => {
+    const result: DeviceAddResult = error ? { ...address, error } : address;
+    mainWindow?.webContents.send('device-add-result', result);
+  };
+
+  probeTcp(address.host, address.port).then(
+    () => {
+      let device: RongbukDevice;
+      try {
+        device = savedDevices.add(address);
+      } catch (err) {
+        console.log(`${address.host}:${address.port} not saved`, err);
+        reply(`could not save the device, ${(err as Error).message}`);
+        return;
       }
-    });
+      sendDeviceUpdate(device);
+      reply();
+    },
+    (err: Error) => {
+      console.log(`no device at ${address.host}:${address.port}`, err);
+      reply(err.message);
+    }
+  );
+};
+
+const handleConnectDevice = (device: RongbukDevice | null) => {
+  if (device === null) return;
+
+  if (!sessions.connect(device)) {
+    mainWindow?.webContents.send(
+      'device-update',
+      sessions.get(device.name).device
+    );
   }
 };
 
 const handleDisconnectDevice = (device: RongbukDevice): void => {
-  if (device.name !== currentDevice.name) return;
-  if (currentDevice.connectionState === 'DISCONNECTED') return;
-  if (currentSocket === null) return;
-  currentSocket.destroy();
+  sessions.disconnect(device);
 };
 
 const MENUID_SELECTDEVICE = 'SelectDevice';
+const MENUID_CAPTURE = 'Capture';
+const MENUID_SIMULATOR = 'Simulator';
+
+// capture and simulator commands next to the default menus, once
+const addMenus = (): void => {
+  const menu = Menu.getApplicationMenu() ?? new Menu();
+  if (menu.getMenuItemById(MENUID_CAPTURE)) return;
+
+  menu.append(
+    new MenuItem({
+      id: MENUID_CAPTURE,
+      label: 'Capture',
+      submenu: [
+        {
+          label: 'Record Raw Data',
+          type: 'checkbox',
+          checked: recording,
+          click: item => setRecording(item.checked),
+        },
+        {
+          label: 'Save Completed Scans',
+          type: 'checkbox',
+          checked: savingScans,
+          click: item => {
+            savingScans = item.checked;
+          },
+        },
+        { type: 'separator' },
+        {
+          label: 'Replay Capture...',
+          click: () => replayCapture('original'),
+        },
+        {
+          label: 'Replay Capture at Maximum Speed...',
+          click: () => replayCapture('max'),
+        },
+      ],
+    })
+  );
+
+  let lossy = false;
+  menu.append(
+    new MenuItem({
+      id: MENUID_SIMULATOR,
+      label: 'Simulator',
+      submenu: [
+        {
+          label: 'Run Simulated Device',
+          type: 'checkbox',
+          click: item => setSimulator(item.checked, lossy),
+        },
+        {
+          label: 'Lossy Link',
+          type: 'checkbox',
+          click: item => {
+            lossy = item.checked;
+            simulator?.configure(lossy ? LOSSY_LINK : PERFECT_LINK);
+          },
+        },
+      ],
+    })
+  );
+  Menu.setApplicationMenu(menu);
+};
 
 const updateMenuSelectDevice = (enabled: boolean): void => {
   const menu = Menu.getApplicationMenu();
@@ -251,18 +491,39 @@ const createMainWindow = (): void => {
     mainWindow.loadFile(path.join(__dirname, `../../src/.vite/renderer/${MAIN_WINDOW_VITE_NAME}/index.html`));
   }
 
+  addMenus();
+
+  savedDevices = new SavedDevices(
+    path.join(app.getPath('userData'), 'devices.json')
+  );
+
   ipcMain.on('user-refresh-devices', () => {
     console.log('user-refresh-devices');
-    discoverDevices(device => {
-      if (currentDevice !== null) {
-        if (currentDevice.name === device.name) {
-          device.connectionState = currentDevice.connectionState;
-        }
-      }
-      mainWindow?.webContents.send('device-update', device);
-    });
+    savedDevices.list().forEach(sendDeviceUpdate);
+    if (simulator?.port) sendDeviceUpdate(simulatedDevice(simulator));
+    discoverDevices(sendDeviceUpdate);
   });
 
+  ipcMain.on(
+    'user-add-device',
+    (event: IpcMainEvent, address: DeviceAddress) => {
+      console.log('user-add-device:', address);
+      handleAddDevice(address);
+    }
+  );
+
+  ipcMain.on(
+    'user-remove-device',
+    (event: IpcMainEvent, device: RongbukDevice) => {
+      console.log('user-remove-device:', device);
+      try {
+        savedDevices.remove(device.name);
+      } catch (err) {
+        console.log(`${device.name} not removed`, err);
+      }
+    }
+  );
+
   ipcMain.on(
     'user-connect-device',
     (event: IpcMainEvent, device: RongbukDevice) => {
@@ -281,21 +542,26 @@ const createMainWindow = (): void => {
 
   ipcMain.on(
     'user-submit-scan-config',
-    (event: IpcMainEvent, config: JsonConfig) => {
-      console.log('user-submit-scan-config:', config);
-
-      if (currentSocket) {
-        const request = JSON.stringify(config) + '\n';
-        currentSocket.write(request, err => {
-          if (err) {
-            console.log(err);
-          } else {
-            console.log(request);
-          }
+    (event: IpcMainEvent, { config, devices }: ScanConfigSubmit) => {
+      console.log('user-submit-scan-config:', config, devices);
+
+      // every device answers on its own, see ConnectionManager.request().
+      // a device disconnected meanwhile fails, the window waits for all.
+      devices.forEach(name => {
+        const connection = sessions.get(name);
+        const result: Promise<RequestResult> = connection
+          ? connection.request(config)
+          : Promise.resolve({
+              requestId: 0,
+              status: 'failed',
+              error: 'no device connected',
+            });
+        result.then(data => {
+          console.log(`${name} submit result`, data);
+          const event: DeviceEvent<RequestResult> = { device: name, data };
+          mainWindow?.webContents.send('device-submit-result', event);
         });
-      } else {
-        console.log('no socket');
-      }
+      });
     }
   );
 
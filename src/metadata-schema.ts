@@ -0,0 +1,327 @@
+/**
+ * Validation of the metadata JSON the device sends at the start of a scan.
+ *
+ * The metadata echoes the scan config submitted by the host, so ranges
+ * follow types/config.d.ts. Every problem is reported with the path of the
+ * field, e.g. `angles[2].degree: expected an integer from -45 to 45, got 60`.
+ * Top level fields not known here are not errors; they are kept in `extra`
+ * so newer firmware can add fields without breaking older hosts.
+ */
+
+export interface MetadataAngle {
+  degree: number;
+  // tx mask of every step
+  steps: number[];
+}
+
+export interface ScanMetadata {
+  name?: string;
+  captureStartUs: number;
+  captureEndUs: number;
+  angles: MetadataAngle[];
+  // 0/1 receive flag per channel
+  rxApodization?: number[];
+  numChannels?: number;
+  // format byte, see sample-formats.ts
+  sampleFormat?: number;
+  // [count, level] segments of the tx pattern, see types/config.d.ts
+  pattern?: [number, number][];
+  repeat?: number;
+  tail?: number;
+  // top level fields unknown to this version, as received
+  extra: Record<string, unknown>;
+}
+
+// `metadata` is set only if there are no errors
+export interface MetadataValidation {
+  metadata?: ScanMetadata;
+  errors: string[];
+}
+
+const KNOWN_FIELDS = [
+  'name',
+  'captureStartUs',
+  'captureEndUs',
+  'angles',
+  'rxApodization',
+  'numChannels',
+  'sampleFormat',
+  'pattern',
+  'repeat',
+  'tail',
+];
+
+const MAX_NAME_LENGTH = 31;
+const MIN_DEGREE = -45;
+const MAX_DEGREE = 45;
+const MAX_ANGLES = 91;
+const MAX_STEPS = 32;
+const MAX_MASK = 0xffffffff;
+// channel index is a byte in data packets
+const MAX_CHANNELS = 256;
+const MAX_PATTERN_SEGMENTS = 16;
+const MAX_SEGMENT_COUNT = 31;
+const MAX_SEGMENT_LEVEL = 3;
+const MAX_REPEAT = 31;
+const MAX_TAIL = 31;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describeValue = (value: unknown): string =>
+  value === undefined ? 'nothing' : JSON.stringify(value);
+
+/**
+ * collects errors of one document, the check functions return the value
+ * if it is valid and undefined otherwise
+ */
+class Checker {
+  public errors: string[] = [];
+
+  public fail(path: string, expected: string, value: unknown): undefined {
+    this.errors.push(
+      `${path}: expected ${expected}, got ${describeValue(value)}`
+    );
+    return undefined;
+  }
+
+  public integer(
+    path: string,
+    value: unknown,
+    min: number,
+    max: number,
+    even = false
+  ): number | undefined {
+    if (
+      typeof value !== 'number' ||
+      !Number.isInteger(value) ||
+      value < min ||
+      value > max ||
+      (even && value % 2 !== 0)
+    ) {
+      const what = even ? 'an even integer' : 'an integer';
+      return this.fail(path, `${what} from ${min} to ${max}`, value);
+    }
+    return value;
+  }
+
+  public array(
+    path: string,
+    value: unknown,
+    minLength: number,
+    maxLength: number
+  ): unknown[] | undefined {
+    if (
+      !Array.isArray(value) ||
+      value.length < minLength ||
+      value.length > maxLength
+    ) {
+      return this.fail(
+        path,
+        `an array of ${minLength} to ${maxLength} elements`,
+        value
+      );
+    }
+    return value;
+  }
+}
+
+const checkAngles = (
+  check: Checker,
+  value: unknown
+): MetadataAngle[] | undefined => {
+  const array = check.array('angles', value, 1, MAX_ANGLES);
+  if (!array) return undefined;
+
+  const angles: MetadataAngle[] = [];
+  const degrees = new Set<number>();
+
+  array.forEach((angle, i) => {
+    const path = `angles[${i}]`;
+    if (!isObject(angle)) {
+      check.fail(path, 'an object', angle);
+      return;
+    }
+
+    const degree = check.integer(
+      `${path}.degree`,
+      angle.degree,
+      MIN_DEGREE,
+      MAX_DEGREE
+    );
+    if (degree !== undefined) {
+      if (degrees.has(degree)) {
+        check.fail(`${path}.degree`, 'a degree not used before', degree);
+      }
+      degrees.add(degree);
+    }
+
+    const steps = check.array(`${path}.steps`, angle.steps, 1, MAX_STEPS);
+    const masks = steps?.map((mask, j) =>
+      check.integer(`${path}.steps[${j}]`, mask, 0, MAX_MASK)
+    );
+
+    if (degree !== undefined && masks) {
+      angles.push({ degree, steps: masks as number[] });
+    }
+  });
+
+  return angles;
+};
+
+const checkRxApodization = (
+  check: Checker,
+  value: unknown
+): number[] | undefined => {
+  const array = check.array('rxApodization', value, 1, MAX_CHANNELS);
+  if (!array) return undefined;
+
+  array.forEach((flag, i) => {
+    if (flag !== 0 && flag !== 1) {
+      check.fail(`rxApodization[${i}]`, '0 or 1', flag);
+    }
+  });
+  if (array.indexOf(1) < 0) {
+    check.fail('rxApodization', 'at least one active channel', value);
+  }
+
+  return array as number[];
+};
+
+const checkPattern = (
+  check: Checker,
+  value: unknown
+): [number, number][] | undefined => {
+  const array = check.array('pattern', value, 1, MAX_PATTERN_SEGMENTS);
+  if (!array) return undefined;
+
+  const segments: [number, number][] = [];
+  array.forEach((segment, i) => {
+    const path = `pattern[${i}]`;
+    if (!Array.isArray(segment) || segment.length !== 2) {
+      check.fail(path, 'a [count, level] pair', segment);
+      return;
+    }
+    const count = check.integer(`${path}[0]`, segment[0], 1, MAX_SEGMENT_COUNT);
+    const level = check.integer(`${path}[1]`, segment[1], 0, MAX_SEGMENT_LEVEL);
+    if (count !== undefined && level !== undefined) {
+      segments.push([count, level]);
+    }
+  });
+
+  return segments;
+};
+
+export const validateMetadata = (doc: unknown): MetadataValidation => {
+  const check = new Checker();
+
+  if (!isObject(doc)) {
+    check.fail('metadata', 'an object', doc);
+    return { errors: check.errors };
+  }
+
+  let name: string | undefined;
+  if (doc.name !== undefined) {
+    if (typeof doc.name === 'string' && doc.name.length <= MAX_NAME_LENGTH) {
+      name = doc.name;
+    } else {
+      check.fail(
+        'name',
+        `a string of at most ${MAX_NAME_LENGTH} characters`,
+        doc.name
+      );
+    }
+  }
+
+  const captureStartUs = check.integer(
+    'captureStartUs',
+    doc.captureStartUs,
+    20,
+    198,
+    true
+  );
+  const captureEndUs = check.integer(
+    'captureEndUs',
+    doc.captureEndUs,
+    22,
+    200,
+    true
+  );
+  if (
+    captureStartUs !== undefined &&
+    captureEndUs !== undefined &&
+    captureEndUs <= captureStartUs
+  ) {
+    check.fail('captureEndUs', `more than ${captureStartUs}`, captureEndUs);
+  }
+
+  const angles = checkAngles(check, doc.angles);
+
+  let rxApodization: number[] | undefined;
+  if (doc.rxApodization !== undefined) {
+    rxApodization = checkRxApodization(check, doc.rxApodization);
+  }
+
+  let numChannels: number | undefined;
+  if (doc.numChannels !== undefined) {
+    numChannels = check.integer(
+      'numChannels',
+      doc.numChannels,
+      1,
+      MAX_CHANNELS
+    );
+    if (
+      numChannels !== undefined &&
+      rxApodization !== undefined &&
+      numChannels !== rxApodization.length
+    ) {
+      check.fail(
+        'numChannels',
+        `the length of rxApodization (${rxApodization.length})`,
+        numChannels
+      );
+    }
+  }
+
+  let sampleFormat: number | undefined;
+  if (doc.sampleFormat !== undefined) {
+    sampleFormat = check.integer('sampleFormat', doc.sampleFormat, 0, 255);
+  }
+
+  const pattern =
+    doc.pattern === undefined ? undefined : checkPattern(check, doc.pattern);
+  const repeat =
+    doc.repeat === undefined
+      ? undefined
+      : check.integer('repeat', doc.repeat, 0, MAX_REPEAT);
+  const tail =
+    doc.tail === undefined
+      ? undefined
+      : check.integer('tail', doc.tail, 0, MAX_TAIL);
+
+  if (check.errors.length > 0) {
+    return { errors: check.errors };
+  }
+
+  const extra: Record<string, unknown> = {};
+  for (const key of Object.keys(doc)) {
+    if (KNOWN_FIELDS.indexOf(key) < 0) extra[key] = doc[key];
+  }
+
+  return {
+    errors: [],
+    metadata: {
+      name,
+      captureStartUs: captureStartUs as number,
+      captureEndUs: captureEndUs as number,
+      angles: angles as MetadataAngle[],
+      rxApodization,
+      numChannels,
+      sampleFormat,
+      pattern,
+      repeat,
+      tail,
+      extra,
+    },
+  };
+};
@@ -0,0 +1,299 @@
+import type { TransferListItem } from 'worker_threads';
+
+import { UltrasonicDataParser, receiveClock } from './parser';
+import type { CompleteScanData, ParserOptions } from './parser';
+
+/**
+ * Runs UltrasonicDataParser behind a message port, normally the parent
+ * port of a worker thread (see parser-worker.ts), so CRC checks and sample
+ * unpacking don't block the Electron main process.
+ *
+ * ParserWorkerClient on the other side has the same callbacks as the
+ * parser. Received bytes are copied once and transferred to the worker;
+ * sample buffers of finished scans are transferred back.
+ */
+
+// parser callbacks forwarded from the worker
+export const PARSER_EVENTS = [
+  'onScanComplete',
+  'onScanSuperseded',
+  'onParseError',
+  'onConfig',
+  'onPacketReceived',
+  'onStepComplete',
+  'onRetransmitRequest',
+  'onMetadataReceived',
+  'onDataPacketReceived',
+  'onStats',
+  'onLinkHealth',
+  'onDeviceStatus',
+  'onCommandAck',
+  'onDeviceLog',
+  'onUnknownPacket',
+] as const;
+
+export type ParserEvent = (typeof PARSER_EVENTS)[number];
+
+// the callback of each forwarded event
+type ParserCallbacks = {
+  [E in ParserEvent]: NonNullable<UltrasonicDataParser[E]>;
+};
+
+export type ClientMessage =
+  // receivedAt is taken on the client, see receiveClock()
+  | { type: 'data'; data: Uint8Array; receivedAt: number }
+  | { type: 'reset' }
+  | { type: 'interrupt' }
+  // only events with a callback on the client are forwarded
+  | { type: 'subscribe'; events: ParserEvent[] };
+
+export type WorkerMessage =
+  | { type: 'event'; event: ParserEvent; args: unknown[] }
+  // bytes of one data message have been parsed
+  | { type: 'processed'; bytes: number };
+
+// the part of MessagePort and Worker used here
+export interface ParserPort {
+  postMessage(value: unknown, transferList?: readonly TransferListItem[]): void;
+  on(event: 'message', listener: (value: unknown) => void): unknown;
+  // a worker that crashed or ended, see ParserWorkerClient.onFailed
+  on(event: 'error', listener: (error: Error) => void): unknown;
+  on(event: 'exit', listener: (exitCode: number) => void): unknown;
+  // ends a worker, see ParserWorkerClient.dispose()
+  terminate?(): unknown;
+}
+
+// bytes queued to the worker before processData() asks the caller to pause
+const DEFAULT_HIGH_WATER_MARK = 4 * 1024 * 1024;
+
+/**
+ * sample buffers of a finished scan, the parser keeps no reference to them.
+ * samples sharing a buffer with other data are left to be copied.
+ */
+const scanTransferList = (scan: CompleteScanData): ArrayBuffer[] => {
+  const buffers = new Set<ArrayBuffer>();
+  for (const angle of scan.angles) {
+    for (const step of angle.steps) {
+      for (const { samples } of step.channels) {
+        if (samples.byteLength === samples.buffer.byteLength) {
+          buffers.add(samples.buffer as ArrayBuffer);
+        }
+      }
+    }
+  }
+  return [...buffers];
+};
+
+/**
+ * worker side, parses data messages from `port` and posts parser events
+ * back. returns the parser.
+ */
+export const attachParserToPort = (
+  port: ParserPort,
+  options: ParserOptions = {}
+): UltrasonicDataParser => {
+  const parser = new UltrasonicDataParser(options);
+  const callbacks: Partial<ParserCallbacks> = parser;
+
+  const post = (
+    event: ParserEvent,
+    args: unknown[],
+    transfer: ArrayBuffer[] = []
+  ): void => {
+    const message: WorkerMessage = { type: 'event', event, args };
+    port.postMessage(message, transfer);
+  };
+  const forward =
+    <E extends ParserEvent>(event: E) =>
+    (...args: Parameters<ParserCallbacks[E]>) =>
+      post(event, args);
+
+  const forwarders: ParserCallbacks = {
+    onScanComplete: scan =>
+      post('onScanComplete', [scan], scanTransferList(scan)),
+    onScanSuperseded: scan =>
+      post('onScanSuperseded', [scan], scanTransferList(scan)),
+    onParseError: forward('onParseError'),
+    onConfig: forward('onConfig'),
+    onPacketReceived: forward('onPacketReceived'),
+    onStepComplete: forward('onStepComplete'),
+    onRetransmitRequest: forward('onRetransmitRequest'),
+    onMetadataReceived: forward('onMetadataReceived'),
+    onDataPacketReceived: forward('onDataPacketReceived'),
+    onStats: forward('onStats'),
+    onLinkHealth: forward('onLinkHealth'),
+    onDeviceStatus: forward('onDeviceStatus'),
+    onCommandAck: forward('onCommandAck'),
+    onDeviceLog: forward('onDeviceLog'),
+    onUnknownPacket: forward('onUnknownPacket'),
+  };
+
+  // callbacks of events the client doesn't listen to stay unset, the
+  // parser skips their work (retransmit requests, for one)
+  const subscribe = <E extends ParserEvent>(event: E, on: boolean): void => {
+    callbacks[event] = on ? forwarders[event] : undefined;
+  };
+
+  port.on('message', value => {
+    const message = value as ClientMessage;
+    switch (message.type) {
+      case 'data': {
+        parser.processData(message.data, message.receivedAt);
+        const processed: WorkerMessage = {
+          type: 'processed',
+          bytes: message.data.length,
+        };
+        port.postMessage(processed);
+        break;
+      }
+      case 'reset':
+        parser.reset();
+        break;
+      case 'interrupt':
+        parser.interruptScan();
+        break;
+      case 'subscribe':
+        PARSER_EVENTS.forEach(event =>
+          subscribe(event, message.events.indexOf(event) >= 0)
+        );
+        break;
+    }
+  });
+
+  return parser;
+};
+
+/**
+ * main process side of a parser running behind `port`
+ */
+export class ParserWorkerClient {
+  public onScanComplete?: UltrasonicDataParser['onScanComplete'];
+  public onScanSuperseded?: UltrasonicDataParser['onScanSuperseded'];
+  public onParseError?: UltrasonicDataParser['onParseError'];
+  public onConfig?: UltrasonicDataParser['onConfig'];
+  public onPacketReceived?: UltrasonicDataParser['onPacketReceived'];
+  public onStepComplete?: UltrasonicDataParser['onStepComplete'];
+  public onRetransmitRequest?: UltrasonicDataParser['onRetransmitRequest'];
+  public onMetadataReceived?: UltrasonicDataParser['onMetadataReceived'];
+  public onDataPacketReceived?: UltrasonicDataParser['onDataPacketReceived'];
+  public onStats?: UltrasonicDataParser['onStats'];
+  public onLinkHealth?: UltrasonicDataParser['onLinkHealth'];
+  public onDeviceStatus?: UltrasonicDataParser['onDeviceStatus'];
+  public onCommandAck?: UltrasonicDataParser['onCommandAck'];
+  public onDeviceLog?: UltrasonicDataParser['onDeviceLog'];
+  public onUnknownPacket?: UltrasonicDataParser['onUnknownPacket'];
+  // all queued bytes have been parsed after processData() returned false
+  public onDrain?: () => void;
+  // the worker crashed or ended, nothing more will be parsed
+  public onFailed?: (error: Error) => void;
+
+  private pendingBytes = 0;
+  private needDrain = false;
+  private subscription = '';
+  private failed = false;
+  private disposed = false;
+
+  constructor(
+    private port: ParserPort,
+    private highWaterMark: number = DEFAULT_HIGH_WATER_MARK
+  ) {
+    port.on('message', value => this.handleMessage(value as WorkerMessage));
+    port.on('error', err => this.fail(err));
+    port.on('exit', exitCode =>
+      this.fail(new Error(`parser worker exited with code ${exitCode}`))
+    );
+  }
+
+  /**
+   * bytes queued to the worker and not parsed yet
+   */
+  public get pending(): number {
+    return this.pendingBytes;
+  }
+
+  /**
+   * queues `data` to the worker. like stream.write(), returns false once
+   * more than highWaterMark bytes are queued; the data is still accepted,
+   * but the caller should pause its source until onDrain.
+   */
+  public processData(
+    data: Uint8Array,
+    receivedAt: number = receiveClock()
+  ): boolean {
+    this.subscribe();
+
+    // always copy, socket buffers may be views into a shared pool
+    const copy = new Uint8Array(data);
+    this.pendingBytes += copy.length;
+    const message: ClientMessage = { type: 'data', data: copy, receivedAt };
+    this.port.postMessage(message, [copy.buffer]);
+
+    if (this.pendingBytes > this.highWaterMark) {
+      this.needDrain = true;
+      return false;
+    }
+    return true;
+  }
+
+  public reset(): void {
+    this.subscribe();
+    const message: ClientMessage = { type: 'reset' };
+    this.port.postMessage(message);
+  }
+
+  // after the data queued so far has been parsed
+  public interruptScan(): void {
+    this.subscribe();
+    const message: ClientMessage = { type: 'interrupt' };
+    this.port.postMessage(message);
+  }
+
+  /**
+   * ends the worker, the client is not used again
+   */
+  public dispose(): void {
+    this.disposed = true;
+    this.port.terminate?.();
+  }
+
+  // bytes queued to a dead worker will never be parsed, a paused caller
+  // is released before it hears of the failure
+  private fail(error: Error): void {
+    if (this.failed || this.disposed) return;
+    this.failed = true;
+
+    this.pendingBytes = 0;
+    if (this.needDrain) {
+      this.needDrain = false;
+      this.onDrain?.();
+    }
+    this.onParseError?.(`parser worker failed, ${error.message}`);
+    this.onFailed?.(error);
+  }
+
+  // tells the worker which callbacks are set, if that has changed
+  private subscribe(): void {
+    const events = PARSER_EVENTS.filter(event => this[event] !== undefined);
+    const subscription = events.join();
+    if (subscription === this.subscription) return;
+
+    this.subscription = subscription;
+    const message: ClientMessage = { type: 'subscribe', events };
+    this.port.postMessage(message);
+  }
+
+  private handleMessage(message: WorkerMessage): void {
+    if (message.type === 'processed') {
+      this.pendingBytes -= message.bytes;
+      if (this.needDrain && this.pendingBytes === 0) {
+        this.needDrain = false;
+        this.onDrain?.();
+      }
+      return;
+    }
+
+    const callback = this[message.event] as
+      ((...args: unknown[]) => void) | undefined;
+    callback?.(...message.args);
+  }
+}
@@ -0,0 +1,9 @@
+import { parentPort, workerData } from 'worker_threads';
+
+import { attachParserToPort } from './parser-port';
+
+// worker thread entry, started by main.ts. the parser options are taken
+// from workerData if given, main.ts uses the defaults.
+if (parentPort) {
+  attachParserToPort(parentPort, workerData ?? {});
+}
@@ -1,9 +1,26 @@
-const PACKET_PREAMBLE = 0xa5a5a5a5;
+import { ByteRingBuffer } from './ring-buffer';
+import { Stm32Crc32 } from './crc32';
+import { DEFAULT_SAMPLE_DECODER, getSampleDecoder } from './sample-formats';
+import { validateMetadata } from './metadata-schema';
+
+export { stm32h7_crc32, stm32h7_crc32_bytes, Stm32Crc32 } from './crc32';
+
+export const PACKET_PREAMBLE = 0xa5a5a5a5;
+const PACKET_PREAMBLE_BYTES = new Uint8Array([0xa5, 0xa5, 0xa5, 0xa5]);
 const SIZEOF_PACKET_PREAMBLE = 4;
 const SIZEOF_PACKET_HEADER_T = 8;
 const SIZEOF_DATA_PACKET_HEADER_T = SIZEOF_PACKET_HEADER_T + 4;
 const SIZEOF_PACKET_CRC = 4;
 
+// larger payload sizes are taken as a false preamble in noise
+const MAX_PAYLOAD_SIZE = 1024 * 1024;
+
+export const PACKET_TYPE_STATUS = 0x01;
+export const PACKET_TYPE_DATA = 0x02;
+export const PACKET_TYPE_ACK = 0x03;
+export const PACKET_TYPE_METADATA = 0x04;
+export const PACKET_TYPE_LOG = 0x05;
+
 const DATA_PACKET_ANGLE_OFFSET =
   SIZEOF_PACKET_PREAMBLE + SIZEOF_PACKET_HEADER_T;
 const DATA_PACKET_STEP_OFFSET = DATA_PACKET_ANGLE_OFFSET + 1;
@@ -11,19 +28,51 @@ const DATA_PACKET_CHANNEL_OFFSET = DATA_PACKET_STEP_OFFSET + 1;
 const DATA_PACKET_FORMAT_OFFSET = DATA_PACKET_CHANNEL_OFFSET + 1;
 const DATA_PACKET_CHUNK_OFFSET = DATA_PACKET_FORMAT_OFFSET + 4;
 
+// default inactivity timeout after the last packet of a scan, in milliseconds
+const DEFAULT_SCAN_TIMEOUT_MS = 3000;
+// channels of probes whose metadata has no rxApodization
+const DEFAULT_NUM_CHANNELS = 64;
+// default period of onStats and link health checks, in milliseconds
+const DEFAULT_STATS_INTERVAL_MS = 1000;
+const DEFAULT_MAX_RETRANSMIT_REQUESTS = 2;
+
+export interface ScanAngleConfig {
+  label: string;
+  // steering angle in degrees
+  degree: number;
+  numSteps: number;
+  // tx mask of every step
+  masks: number[];
+}
+
 export interface ScanConfig {
   name: string;
   captureStartUs: number;
   captureEndUs: number;
-  angles: { label: string; numSteps: number }[];
+  angles: ScanAngleConfig[];
   numAngles: number;
   totalSteps: number;
+  // 0/1 receive flag per channel, as submitted by ControlPanel
   rxApodization: number[];
+  // receive channels of the probe, and the ones sending data packets
+  numChannels: number;
+  activeChannels: number[];
+  // sample format name and ADC resolution, see sample-formats.ts
+  sampleFormat: string;
+  adcBits: number;
+  // tx pattern as in types/config.d.ts, if the device echoes it
+  pattern?: [number, number][];
+  repeat?: number;
+  tail?: number;
+  // metadata fields unknown to this version, see metadata-schema.ts
+  extra: Record<string, unknown>;
+  // the metadata document as received
+  raw: Record<string, unknown>;
 }
 
 export interface ChannelData {
   index: number;
-  samples: number[];
+  samples: Int16Array;
 }
 
 export interface StepData {
@@ -34,57 +83,288 @@ export interface StepData {
 export interface AngleData {
   index: number;
   label: string;
+  degree: number;
   steps: StepData[];
 }
 
+// why a scan was finalized:
+// - complete: all expected packets arrived
+// - timeout: no packet arrived within scanTimeoutMs
+// - superseded: a new metadata packet started another scan
+// - disconnected: the connection to the device was lost, see interruptScan()
+export type ScanEndReason =
+  'complete' | 'timeout' | 'superseded' | 'disconnected';
+
 export interface CompleteScanData {
   scanId: number;
   config: ScanConfig;
   angles: AngleData[];
+  // true if the scan was finalized before all expected packets arrived
+  partial: boolean;
+  // `${angleIndex}_${stepIndex}_${channelIndex}` keys of packets never received
+  missing: string[];
+  reason: ScanEndReason;
+  timing: ScanTiming;
+}
+
+/**
+ * How a scan arrived, times are receive times (see ParserOptions.now)
+ */
+export interface ScanTiming {
+  // metadata received
+  startedAt: number;
+  // last data packet received, startedAt if there was none
+  endedAt: number;
+  durationMs: number;
+  // metadata to the first data packet, undefined if there was none
+  firstPacketDelayMs?: number;
+  // longest wait for a data packet, counting from metadata
+  maxGapMs: number;
+  // frames of the data packets of the scan, including resent and duplicates
+  bytes: number;
+  // bytes over durationMs, 0 if no time passed
+  bytesPerSecond: number;
 }
 
 export interface DataPacket {
+  packetType: number;
   scanId: number;
+  payloadSize: number;
   angleIndex: number;
   stepIndex: number;
   channelIndex: number;
-  samples: number[];
+  // format byte of the packet, see sample-formats.ts
+  sampleFormat: number;
+  samples: Int16Array;
+  receivedAt: number;
+}
+
+export interface MetadataPacket {
+  packetType: number;
+  scanId: number;
+  payloadSize: number;
+  scanConfig: ScanConfig;
+  receivedAt: number;
+}
+
+/**
+ * A valid frame (preamble, header and crc checked) of any packet type.
+ * `payload` is a view into the receive buffer, copy it to keep it beyond
+ * the handler call.
+ */
+export interface RawPacket {
+  packetType: number;
+  scanId: number;
+  payload: Uint8Array;
+  receivedAt: number;
+}
+
+export type PacketHandler = (packet: RawPacket) => void;
+
+// JSON document of a status packet, the fields depend on firmware
+export type DeviceStatus = Record<string, unknown>;
+
+// JSON document of an ack packet, replying to a host command
+export interface CommandAck {
+  requestId?: number;
+  ok: boolean;
+  error?: string;
+  [key: string]: unknown;
+}
+
+// asks the device to send the data packets of `missing` keys again
+export interface RetransmitRequest {
+  scanId: number;
+  // `${angleIndex}_${stepIndex}_${channelIndex}` keys, as in CompleteScanData
+  missing: string[];
+  // 1 for the first request of a scan
+  attempt: number;
 }
 
 interface CurrentScan {
   scanId: number;
   config: ScanConfig;
   dataPackets: Map<string, DataPacket>;
+  // received channels per `${angleIndex}_${stepIndex}`
+  stepChannels: Map<string, number>;
   totalExpectedPackets: number;
+  retransmitRequests: number;
+  startedAt: number;
+  firstPacketAt?: number;
+  lastPacketAt: number;
+  maxGapMs: number;
+  bytes: number;
 }
 
-export const stm32h7_crc32 = (data: Uint32Array): number => {
-  let crc32: number = 0xffffffff;
-  for (let i = 0; i < data.length; i++) {
-    crc32 = crc32 ^ (data[i] >>> 0);
-    for (let j = 0; j < 32; j++) {
-      if (crc32 & 0x80000000) crc32 = ((crc32 << 1) >>> 0) ^ 0x04c11db7;
-      else crc32 = (crc32 << 1) >>> 0;
-    }
-  }
-  return crc32 >>> 0;
-};
+export interface ParserOptions {
+  // inactivity timeout after metadata or the last data packet; once it
+  // expires the scan is delivered as partial. 0 disables the timeout.
+  scanTimeoutMs?: number;
+  // period of onStats and onLinkHealth, 0 disables them.
+  statsIntervalMs?: number;
+  // retransmit requests per scan before a timed out scan is delivered as
+  // partial, each waits another scanTimeoutMs. only used while
+  // onRetransmitRequest is set.
+  maxRetransmitRequests?: number;
+  // clock of packet receive times in ms, must be monotonic
+  now?: () => number;
+}
+
+/**
+ * default receive clock. unlike performance.now() alone, it is comparable
+ * between threads, so times taken where data arrives can be passed to a
+ * parser in a worker
+ */
+export const receiveClock = (): number =>
+  performance.timeOrigin + performance.now();
+
+/**
+ * Counters since construction or the last reset()
+ */
+export interface ParserStats {
+  bytesReceived: number;
+  // bytes skipped while searching for the next valid packet
+  bytesDiscarded: number;
+  packetsReceived: number;
+  crcFailures: number;
+  // valid packets of a type without handler
+  unknownPackets: number;
+  // data packets received twice for the same angle, step and channel
+  duplicatePackets: number;
+  // data packets without an active scan, with another scan id, or outside
+  // the angles, steps and active channels of the scan
+  outOfScanPackets: number;
+  // JSON payloads failing to parse, and metadata failing validation
+  jsonFailures: number;
+  retransmitRequests: number;
+}
+
+// link health over the last stats interval:
+// - IDLE: no bytes received
+// - HEALTHY: bytes received, nothing discarded
+// - DEGRADED: bytes discarded or crc failures
+export type LinkHealth = 'IDLE' | 'HEALTHY' | 'DEGRADED';
+
+const emptyStats = (): ParserStats => ({
+  bytesReceived: 0,
+  bytesDiscarded: 0,
+  packetsReceived: 0,
+  crcFailures: 0,
+  unknownPackets: 0,
+  duplicatePackets: 0,
+  outOfScanPackets: 0,
+  jsonFailures: 0,
+  retransmitRequests: 0,
+});
 
 export class UltrasonicDataParser {
-  private buffer: Uint8Array = new Uint8Array(0);
+  private buffer = new ByteRingBuffer();
+  private crc = new Stm32Crc32();
   private currentScan: CurrentScan | null = null;
+  private scanTimer: NodeJS.Timeout | null = null;
+  private scanTimeoutMs: number;
+  private maxRetransmitRequests: number;
+  private stats: ParserStats = emptyStats();
+  private lastStats: ParserStats = emptyStats();
+  private statsTimer: NodeJS.Timeout | null = null;
+  private statsIntervalMs: number;
+  private linkHealth: LinkHealth = 'IDLE';
+  private now: () => number;
+  // receive time of the data being processed
+  private receivedAt = 0;
+  // while the packet at the head of the buffer is incomplete, preambles
+  // after it have been searched up to rescanFrom; those waiting for more
+  // bytes are in pendingCandidates. both refer to the current head.
+  private rescanFrom = 1;
+  private pendingCandidates: number[] = [];
+
+  constructor(options: ParserOptions = {}) {
+    this.scanTimeoutMs = options.scanTimeoutMs ?? DEFAULT_SCAN_TIMEOUT_MS;
+    this.statsIntervalMs = options.statsIntervalMs ?? DEFAULT_STATS_INTERVAL_MS;
+    this.maxRetransmitRequests =
+      options.maxRetransmitRequests ?? DEFAULT_MAX_RETRANSMIT_REQUESTS;
+    this.now = options.now ?? receiveClock;
+
+    this.registerPacketHandler(PACKET_TYPE_STATUS, packet => {
+      const status = this.parseJsonPayload(packet, 'status');
+      if (status !== undefined) this.onDeviceStatus?.(status as DeviceStatus);
+    });
+    this.registerPacketHandler(PACKET_TYPE_ACK, packet => {
+      const ack = this.parseJsonPayload(packet, 'ack');
+      if (ack !== undefined) this.onCommandAck?.(ack as CommandAck);
+    });
+    this.registerPacketHandler(PACKET_TYPE_LOG, packet => {
+      const text = new TextDecoder().decode(packet.payload);
+      this.onDeviceLog?.(text.replace(/[\0\s]+$/, ''));
+    });
+  }
 
   // Callback for complete scan data
   public onScanComplete?: (scanData: CompleteScanData) => void;
-  public onParseError?: (error: string) => void;
+  // in-flight scan flushed as partial because a new scan started
+  public onScanSuperseded?: (scanData: CompleteScanData) => void;
+  // `data` is a copy of the offending payload, if any
+  public onParseError?: (error: string, data?: Uint8Array) => void;
   public onConfig?: (cfg: ScanConfig) => void;
   public onPacketReceived?: (num: number) => void;
+  // all active channels of a step have arrived, called once per step of
+  // the current scan, before onScanComplete
+  public onStepComplete?: (
+    angleIndex: number,
+    stepIndex: number,
+    step: StepData
+  ) => void;
+  // current scan timed out with packets missing, the owner of the
+  // connection should forward the request to the device
+  public onRetransmitRequest?: (request: RetransmitRequest) => void;
+  // every decoded metadata and data packet, including data packets outside
+  // the current scan, before scan assembly
+  public onMetadataReceived?: (packet: MetadataPacket) => void;
+  public onDataPacketReceived?: (packet: DataPacket) => void;
+  // called every statsIntervalMs once data has been received
+  public onStats?: (stats: ParserStats) => void;
+  public onLinkHealth?: (health: LinkHealth, stats: ParserStats) => void;
+  public onDeviceStatus?: (status: DeviceStatus) => void;
+  public onCommandAck?: (ack: CommandAck) => void;
+  public onDeviceLog?: (text: string) => void;
+  // valid packet of a type without handler, payload is a copy
+  public onUnknownPacket?: (packet: RawPacket) => void;
+
+  private packetHandlers = new Map<number, PacketHandler>();
+
+  /**
+   * sets the handler of a packet type, replacing any previous one.
+   * metadata and data packets are handled by the parser itself.
+   */
+  public registerPacketHandler(
+    packetType: number,
+    handler: PacketHandler
+  ): void {
+    if (
+      packetType === PACKET_TYPE_DATA ||
+      packetType === PACKET_TYPE_METADATA
+    ) {
+      throw new Error(`packet type 0x${packetType.toString(16)} is built in`);
+    }
+    this.packetHandlers.set(packetType, handler);
+  }
 
-  public processData(newData: Uint8Array): void {
-    const combined = new Uint8Array(this.buffer.length + newData.length);
-    combined.set(this.buffer);
-    combined.set(newData, this.buffer.length);
-    this.buffer = combined;
+  public getStats(): ParserStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * `receivedAt` is when the data arrived, by the receive clock. packets
+   * completed by this data are stamped with it.
+   */
+  public processData(
+    newData: Uint8Array,
+    receivedAt: number = this.now()
+  ): void {
+    this.receivedAt = receivedAt;
+    this.startStatsTimer();
+    this.stats.bytesReceived += newData.length;
+    this.buffer.write(newData);
 
     while (this.buffer.length > 0) {
       const packet = this.tryParsePacket();
@@ -93,30 +373,171 @@ export class UltrasonicDataParser {
     }
   }
 
+  private discard(n: number): void {
+    this.buffer.skip(n);
+    this.stats.bytesDiscarded += n;
+    if (n > 0) this.resetRescan();
+  }
+
+  // the head of the buffer moved
+  private resetRescan(): void {
+    this.rescanFrom = 1;
+    this.pendingCandidates = [];
+  }
+
+  /**
+   * drops bytes before the next preamble, keeping a possible partial
+   * preamble at the end. returns false if no preamble is buffered.
+   */
+  private seekPreamble(): boolean {
+    const offset = this.buffer.indexOf(PACKET_PREAMBLE_BYTES);
+    if (offset < 0) {
+      this.discard(
+        Math.max(0, this.buffer.length - (SIZEOF_PACKET_PREAMBLE - 1))
+      );
+      return false;
+    }
+    this.discard(offset);
+    return true;
+  }
+
+  /**
+   * true if a complete packet with a valid crc starts after the head of
+   * the buffer. tells a false preamble in noise, which may claim more bytes
+   * than will ever arrive, from a real packet still being received.
+   *
+   * only bytes that arrived since the last call are searched, candidates
+   * found before are checked again once they are complete.
+   */
+  private hasValidPacketAfterHead(): boolean {
+    const buffer = this.buffer;
+    const waiting: number[] = [];
+
+    for (const offset of this.pendingCandidates) {
+      const candidate = this.checkCandidate(offset);
+      if (candidate === 'valid') return true;
+      if (candidate === 'incomplete') waiting.push(offset);
+    }
+
+    let offset = buffer.indexOf(PACKET_PREAMBLE_BYTES, this.rescanFrom);
+    while (offset >= 0) {
+      const candidate = this.checkCandidate(offset);
+      if (candidate === 'valid') return true;
+      if (candidate === 'incomplete') waiting.push(offset);
+      offset = buffer.indexOf(PACKET_PREAMBLE_BYTES, offset + 1);
+    }
+
+    this.pendingCandidates = waiting;
+    // a preamble may be cut off at the end
+    this.rescanFrom = Math.max(1, buffer.length - (SIZEOF_PACKET_PREAMBLE - 1));
+    return false;
+  }
+
+  // the packet starting with a preamble at `offset`, if it is one
+  private checkCandidate(offset: number): 'valid' | 'invalid' | 'incomplete' {
+    const buffer = this.buffer;
+    const headerStart = offset + SIZEOF_PACKET_PREAMBLE;
+    const payloadStart = headerStart + SIZEOF_PACKET_HEADER_T;
+    if (payloadStart > buffer.length) return 'incomplete';
+
+    const payloadSize = buffer.peekUint32(headerStart + 4);
+    if (payloadSize > MAX_PAYLOAD_SIZE) return 'invalid';
+    const crcStart = payloadStart + payloadSize;
+    if (crcStart + SIZEOF_PACKET_CRC > buffer.length) return 'incomplete';
+
+    const packetData = buffer.peek(headerStart, crcStart - headerStart);
+    const crc = this.crc.reset().update(packetData).digest();
+    return crc === buffer.peekUint32(crcStart) ? 'valid' : 'invalid';
+  }
+
+  private parseJsonPayload(packet: RawPacket, what: string): unknown {
+    const text = new TextDecoder().decode(packet.payload);
+    try {
+      return JSON.parse(text.replace(/\0+$/, ''));
+    } catch (e) {
+      this.stats.jsonFailures++;
+      this.onParseError?.(
+        `Failed to parse JSON ${what}: ${e}`,
+        packet.payload.slice()
+      );
+      return undefined;
+    }
+  }
+
+  private dispatchPacket(packet: RawPacket): void {
+    const handler = this.packetHandlers.get(packet.packetType);
+    if (handler) {
+      handler(packet);
+    } else {
+      this.stats.unknownPackets++;
+      this.onUnknownPacket?.({ ...packet, payload: packet.payload.slice() });
+    }
+  }
+
+  private startStatsTimer(): void {
+    if (this.statsTimer !== null || this.statsIntervalMs <= 0) return;
+
+    this.statsTimer = setInterval(() => {
+      const stats = this.getStats();
+      const last = this.lastStats;
+      this.lastStats = stats;
+
+      let health: LinkHealth = 'HEALTHY';
+      if (stats.bytesReceived === last.bytesReceived) {
+        health = 'IDLE';
+      } else if (
+        stats.bytesDiscarded > last.bytesDiscarded ||
+        stats.crcFailures > last.crcFailures
+      ) {
+        health = 'DEGRADED';
+      }
+
+      this.onStats?.(stats);
+      if (health !== this.linkHealth) {
+        this.linkHealth = health;
+        this.onLinkHealth?.(health, stats);
+      }
+    }, this.statsIntervalMs);
+    // don't keep the process alive just for statistics
+    this.statsTimer.unref?.();
+  }
+
+  private stopStatsTimer(): void {
+    if (this.statsTimer !== null) {
+      clearInterval(this.statsTimer);
+      this.statsTimer = null;
+    }
+  }
+
   private tryParsePacket():
-    | { type: 'metadata'; scanId: number; config: ScanConfig }
+    | { type: 'metadata'; packet: MetadataPacket }
     | { type: 'data'; packet: DataPacket }
     | null {
-    while (this.buffer.length >= 16) {
-      const view = new DataView(this.buffer.buffer, this.buffer.byteOffset);
-      const preamble = view.getUint32(0, true);
-
-      if (preamble !== PACKET_PREAMBLE) {
-        this.buffer = this.buffer.slice(1);
+    while (this.buffer.length >= SIZEOF_PACKET_PREAMBLE) {
+      if (this.buffer.peekUint32(0) !== PACKET_PREAMBLE) {
+        if (!this.seekPreamble()) return null;
         continue;
       }
 
-      const typeAndScanId = view.getUint32(4, true);
+      if (
+        this.buffer.length <
+        SIZEOF_PACKET_PREAMBLE + SIZEOF_PACKET_HEADER_T
+      ) {
+        return null; // Need more data
+      }
+
+      const typeAndScanId = this.buffer.peekUint32(4);
       const packetType = typeAndScanId & 0xff;
+      const scanId = (typeAndScanId >>> 8) & 0xffffff;
+      const payloadSize = this.buffer.peekUint32(8);
 
-      // Only handle metadata (0x04) and data (0x02) packets
-      if (packetType !== 0x02 && packetType !== 0x04) {
-        this.buffer = this.buffer.slice(1);
+      // an absurd size means this preamble is noise, the real one (if any)
+      // starts later
+      if (payloadSize > MAX_PAYLOAD_SIZE) {
+        this.discard(1);
         continue;
       }
 
-      const scanId = (typeAndScanId >>> 8) & 0xffffff;
-      const payloadSize = view.getUint32(8, true);
       const packetSizeWithPreamble =
         SIZEOF_PACKET_PREAMBLE +
         SIZEOF_PACKET_HEADER_T +
@@ -124,75 +545,150 @@ export class UltrasonicDataParser {
         SIZEOF_PACKET_CRC;
 
       if (this.buffer.length < packetSizeWithPreamble) {
-        return null; // Need more data
+        if (!this.hasValidPacketAfterHead()) return null; // Need more data
+        this.discard(1);
+        continue;
       }
 
-      // Verify CRC
+      // Verify CRC, packet bytes are viewed in place and consumed afterwards
+      const packet = this.buffer.peek(0, packetSizeWithPreamble);
+      const view = new DataView(
+        packet.buffer,
+        packet.byteOffset,
+        packet.byteLength
+      );
       const headerStart = SIZEOF_PACKET_PREAMBLE;
       const crcStart = packetSizeWithPreamble - SIZEOF_PACKET_CRC;
-      const packetData = this.buffer.slice(headerStart, crcStart);
       const receivedCrc = view.getUint32(crcStart, true);
-      const packetData32 = new Uint32Array(
-        packetData.buffer,
-        packetData.byteOffset,
-        packetData.length / 4
-      );
-      const calculatedCrc = stm32h7_crc32(packetData32);
+      const packetData = packet.subarray(headerStart, crcStart);
+      const calculatedCrc = this.crc.reset().update(packetData).digest();
 
       if (receivedCrc !== calculatedCrc) {
-        this.buffer = this.buffer.slice(1);
+        this.stats.crcFailures++;
+        this.discard(1);
         continue;
       }
 
-      this.buffer = this.buffer.slice(packetSizeWithPreamble);
+      this.buffer.skip(packetSizeWithPreamble);
+      this.resetRescan();
+      this.stats.packetsReceived++;
 
-      if (packetType === 0x04) {
+      if (packetType === PACKET_TYPE_METADATA) {
         // JSON metadata packet
-        const payload = packetData.slice(SIZEOF_PACKET_HEADER_T);
+        const payload = packetData.subarray(SIZEOF_PACKET_HEADER_T);
         const jsonStr = new TextDecoder('ascii').decode(payload);
 
+        let doc: unknown;
         try {
-          const jconf = JSON.parse(jsonStr);
-          const angles: { label: string; numSteps: number }[] = [];
-          let totalSteps = 0;
-
-          for (const angleConf of jconf.angles) {
-            const { degree, steps } = angleConf;
-            const label =
-              degree === 1 ? `${degree} degree` : `${degree} degrees`;
-            angles.push({ label, numSteps: steps.length });
-            totalSteps += steps.length;
+          doc = JSON.parse(jsonStr);
+        } catch (e) {
+          this.stats.jsonFailures++;
+          this.onParseError?.(
+            `Failed to parse JSON metadata: ${e}`,
+            payload.slice()
+          );
+          continue;
+        }
+
+        const { metadata: jconf, errors } = validateMetadata(doc);
+        if (!jconf) {
+          this.stats.jsonFailures++;
+          for (const error of errors) {
+            this.onParseError?.(`Invalid metadata, ${error}`, payload.slice());
           }
+          continue;
+        }
 
-          const config: ScanConfig = {
-            name: jconf.name || 'noname',
-            captureStartUs: jconf.captureStartUs,
-            captureEndUs: jconf.captureEndUs,
-            angles,
-            numAngles: jconf.angles.length,
-            totalSteps,
-            rxApodization: jconf.rxApodization || Array.from({ length: 64 }, (_, i) => i),
-          };
-
-          return { type: 'metadata', scanId, config };
-        } catch (e) {
-          this.onParseError?.(`Failed to parse JSON metadata: ${e}`);
-          return null;
+        const angles: ScanAngleConfig[] = [];
+        let totalSteps = 0;
+
+        for (const angleConf of jconf.angles) {
+          const { degree, steps } = angleConf;
+          const label = degree === 1 ? `${degree} degree` : `${degree} degrees`;
+          angles.push({ label, degree, numSteps: steps.length, masks: steps });
+          totalSteps += steps.length;
         }
-      } else if (packetType === 0x02) {
-        // Data packet
-        if (scanId === 0) return null; // Skip test packets
 
+        const rxApodization: number[] =
+          jconf.rxApodization ||
+          new Array(jconf.numChannels ?? DEFAULT_NUM_CHANNELS).fill(1);
+        const activeChannels = rxApodization
+          .map((flag, channel) => (flag ? channel : -1))
+          .filter(channel => channel >= 0);
+
+        let decoder = DEFAULT_SAMPLE_DECODER;
+        if (jconf.sampleFormat !== undefined) {
+          decoder = getSampleDecoder(jconf.sampleFormat) ?? decoder;
+        }
+
+        const config: ScanConfig = {
+          name: jconf.name || 'noname',
+          captureStartUs: jconf.captureStartUs,
+          captureEndUs: jconf.captureEndUs,
+          angles,
+          numAngles: jconf.angles.length,
+          totalSteps,
+          rxApodization,
+          numChannels: rxApodization.length,
+          activeChannels,
+          sampleFormat: decoder.name,
+          adcBits: decoder.adcBits,
+          pattern: jconf.pattern,
+          repeat: jconf.repeat,
+          tail: jconf.tail,
+          extra: jconf.extra,
+          raw: doc as Record<string, unknown>,
+        };
+
+        return {
+          type: 'metadata',
+          packet: {
+            packetType,
+            scanId,
+            payloadSize,
+            scanConfig: config,
+            receivedAt: this.receivedAt,
+          },
+        };
+      } else if (packetType === PACKET_TYPE_DATA) {
+        // Data packet
         const angleIndex = view.getUint8(DATA_PACKET_ANGLE_OFFSET);
         const stepIndex = view.getUint8(DATA_PACKET_STEP_OFFSET);
         const channelIndex = view.getUint8(DATA_PACKET_CHANNEL_OFFSET);
-        const dataChunk = packetData.slice(SIZEOF_DATA_PACKET_HEADER_T);
-        const samples = this.unpack10BitSamples(dataChunk);
+        const sampleFormat = view.getUint8(DATA_PACKET_FORMAT_OFFSET);
+        const dataChunk = packetData.subarray(SIZEOF_DATA_PACKET_HEADER_T);
+
+        let decoder = getSampleDecoder(sampleFormat);
+        if (!decoder) {
+          this.onParseError?.(
+            `Unknown sample format 0x${sampleFormat.toString(16)}, decoded as ${DEFAULT_SAMPLE_DECODER.name}`,
+            dataChunk.slice()
+          );
+          decoder = DEFAULT_SAMPLE_DECODER;
+        }
+        const samples = decoder.decode(dataChunk);
 
         return {
           type: 'data',
-          packet: { scanId, angleIndex, stepIndex, channelIndex, samples },
+          packet: {
+            packetType,
+            scanId,
+            payloadSize,
+            angleIndex,
+            stepIndex,
+            channelIndex,
+            sampleFormat,
+            samples,
+            receivedAt: this.receivedAt,
+          },
         };
+      } else {
+        this.dispatchPacket({
+          packetType,
+          scanId,
+          payload: packetData.subarray(SIZEOF_PACKET_HEADER_T),
+          receivedAt: this.receivedAt,
+        });
       }
     }
 
@@ -201,60 +697,238 @@ export class UltrasonicDataParser {
 
   private handlePacket(
     packet:
-      | { type: 'metadata'; scanId: number; config: ScanConfig }
+      | { type: 'metadata'; packet: MetadataPacket }
       | { type: 'data'; packet: DataPacket }
   ): void {
     // console.log(`handlePacket(), packet.type: ${packet.type}`);
 
     if (packet.type === 'metadata') {
+      const { scanId, scanConfig, receivedAt } = packet.packet;
+      this.onMetadataReceived?.(packet.packet);
+
+      // Flush the unfinished scan, if any, before starting the new one
+      if (this.currentScan) {
+        console.log(
+          `parser, scan ${this.currentScan.scanId} superseded by scan ${scanId}`
+        );
+        this.completeScan('superseded');
+      }
+
       // Start new scan
       this.currentScan = {
-        scanId: packet.scanId,
-        config: packet.config,
+        scanId,
+        config: scanConfig,
         dataPackets: new Map(),
-        // totalExpectedPackets: packet.config.totalSteps * 64, // 64 channels, no baseline
-        totalExpectedPackets: packet.config.totalSteps * packet.config.rxApodization.length
+        stepChannels: new Map(),
+        totalExpectedPackets:
+          scanConfig.totalSteps * scanConfig.activeChannels.length,
+        retransmitRequests: 0,
+        startedAt: receivedAt,
+        lastPacketAt: receivedAt,
+        maxGapMs: 0,
+        bytes: 0,
       };
 
-      console.log(
-        'parser, handle metadata packet',
-        packet.config,
-        this.onConfig
-      );
+      console.log('parser, handle metadata packet', scanConfig, this.onConfig);
 
-      this.onConfig?.(packet.config);
+      this.onConfig?.(scanConfig);
+      this.armScanTimer();
     } else if (packet.type === 'data') {
+      this.onDataPacketReceived?.(packet.packet);
+      if (packet.packet.scanId === 0) return; // test packets belong to no scan
+
       // Handle data packet
       if (
         !this.currentScan ||
         this.currentScan.scanId !== packet.packet.scanId
       ) {
+        this.stats.outOfScanPackets++;
         return; // No active scan or wrong scan
       }
 
-      const dataKey = `${packet.packet.angleIndex}_${packet.packet.stepIndex}_${packet.packet.channelIndex}`;
+      if (!this.isInLayout(this.currentScan.config, packet.packet)) {
+        this.stats.outOfScanPackets++;
+        return; // Unknown angle or step, or a disabled channel
+      }
+
+      // the data packets tell the actual format, which metadata may omit
+      const decoder = getSampleDecoder(packet.packet.sampleFormat);
+      if (decoder && decoder.name !== this.currentScan.config.sampleFormat) {
+        this.currentScan.config.sampleFormat = decoder.name;
+        this.currentScan.config.adcBits = decoder.adcBits;
+      }
+
+      const { angleIndex, stepIndex } = packet.packet;
+      const dataKey = `${angleIndex}_${stepIndex}_${packet.packet.channelIndex}`;
+      let stepComplete = false;
+      if (this.currentScan.dataPackets.has(dataKey)) {
+        this.stats.duplicatePackets++;
+      } else {
+        const stepKey = `${angleIndex}_${stepIndex}`;
+        const received = (this.currentScan.stepChannels.get(stepKey) ?? 0) + 1;
+        this.currentScan.stepChannels.set(stepKey, received);
+        stepComplete =
+          received === this.currentScan.config.activeChannels.length;
+      }
       this.currentScan.dataPackets.set(dataKey, packet.packet);
+      this.recordTiming(this.currentScan, packet.packet);
 
       console.log(
         `parser, handle data packet ${dataKey}, ${this.currentScan.dataPackets.size} / ${this.currentScan.totalExpectedPackets}`, 
       );
 
       this.onPacketReceived?.(this.currentScan.dataPackets.size);
+      if (stepComplete && this.onStepComplete) {
+        const step = this.collectStep(angleIndex, stepIndex, []);
+        this.onStepComplete(angleIndex, stepIndex, step);
+      }
 
       // Check if scan is complete
       if (
         this.currentScan.dataPackets.size >=
         this.currentScan.totalExpectedPackets
       ) {
-        this.completeScan();
+        this.completeScan('complete');
+      } else {
+        this.armScanTimer();
       }
     }
   }
 
-  private completeScan(): void {
+  /**
+   * (re)starts the inactivity timer of current scan, the scan is finalized
+   * as partial if no packet arrives before it expires.
+   */
+  private armScanTimer(): void {
+    this.clearScanTimer();
+    if (this.scanTimeoutMs <= 0) return;
+
+    this.scanTimer = setTimeout(() => {
+      this.scanTimer = null;
+      const scan = this.currentScan;
+      if (!scan) return;
+      console.log(
+        `parser, scan ${scan.scanId} timed out, ${scan.dataPackets.size} / ${scan.totalExpectedPackets}`
+      );
+
+      if (
+        this.onRetransmitRequest &&
+        scan.retransmitRequests < this.maxRetransmitRequests
+      ) {
+        const missing = this.getMissingKeys(scan);
+        if (missing.length > 0) {
+          scan.retransmitRequests++;
+          this.stats.retransmitRequests++;
+          this.armScanTimer();
+          this.onRetransmitRequest({
+            scanId: scan.scanId,
+            missing,
+            attempt: scan.retransmitRequests,
+          });
+          return;
+        }
+      }
+
+      this.completeScan('timeout');
+    }, this.scanTimeoutMs);
+  }
+
+  private isInLayout(config: ScanConfig, packet: DataPacket): boolean {
+    const angle = config.angles[packet.angleIndex];
+    return (
+      angle !== undefined &&
+      packet.stepIndex < angle.numSteps &&
+      config.activeChannels.indexOf(packet.channelIndex) >= 0
+    );
+  }
+
+  private getMissingKeys(scan: CurrentScan): string[] {
+    const missing: string[] = [];
+
+    scan.config.angles.forEach((angle, angleIndex) => {
+      for (let stepIndex = 0; stepIndex < angle.numSteps; stepIndex++) {
+        for (const channelIndex of scan.config.activeChannels) {
+          const dataKey = `${angleIndex}_${stepIndex}_${channelIndex}`;
+          if (!scan.dataPackets.has(dataKey)) missing.push(dataKey);
+        }
+      }
+    });
+
+    return missing;
+  }
+
+  private clearScanTimer(): void {
+    if (this.scanTimer !== null) {
+      clearTimeout(this.scanTimer);
+      this.scanTimer = null;
+    }
+  }
+
+  private recordTiming(scan: CurrentScan, packet: DataPacket): void {
+    const { receivedAt } = packet;
+    if (scan.firstPacketAt === undefined) scan.firstPacketAt = receivedAt;
+    scan.maxGapMs = Math.max(scan.maxGapMs, receivedAt - scan.lastPacketAt);
+    scan.lastPacketAt = receivedAt;
+    scan.bytes +=
+      SIZEOF_PACKET_PREAMBLE +
+      SIZEOF_PACKET_HEADER_T +
+      packet.payloadSize +
+      SIZEOF_PACKET_CRC;
+  }
+
+  private getTiming(scan: CurrentScan): ScanTiming {
+    const durationMs = scan.lastPacketAt - scan.startedAt;
+    return {
+      startedAt: scan.startedAt,
+      endedAt: scan.lastPacketAt,
+      durationMs,
+      firstPacketDelayMs:
+        scan.firstPacketAt === undefined
+          ? undefined
+          : scan.firstPacketAt - scan.startedAt,
+      maxGapMs: scan.maxGapMs,
+      bytes: scan.bytes,
+      bytesPerSecond: durationMs > 0 ? (scan.bytes * 1000) / durationMs : 0,
+    };
+  }
+
+  /**
+   * received channels of a step of current scan, keys of the others are
+   * appended to `missing`
+   */
+  private collectStep(
+    angleIndex: number,
+    stepIndex: number,
+    missing: string[]
+  ): StepData {
+    const { config, dataPackets } = this.currentScan as CurrentScan;
+    const channels: ChannelData[] = [];
+
+    // disabled channels send no data and are never missing
+    for (const channelIndex of config.activeChannels) {
+      const dataKey = `${angleIndex}_${stepIndex}_${channelIndex}`;
+      const packet = dataPackets.get(dataKey);
+
+      if (packet?.samples) {
+        // samples are owned by the packet, no need to copy
+        channels.push({
+          index: channelIndex,
+          samples: packet.samples,
+        });
+      } else {
+        missing.push(dataKey);
+      }
+    }
+
+    return { index: stepIndex, channels };
+  }
+
+  private completeScan(reason: ScanEndReason): void {
     if (!this.currentScan) return;
+    this.clearScanTimer();
 
     const angles: AngleData[] = [];
+    const missing: string[] = [];
     const config = this.currentScan.config;
 
     // Transform data into structured format
@@ -263,22 +937,9 @@ export class UltrasonicDataParser {
       const steps: StepData[] = [];
 
       for (let stepIndex = 0; stepIndex < angleConfig.numSteps; stepIndex++) {
-        const channels: ChannelData[] = [];
-
-        for (let channelIndex = 0; channelIndex < 64; channelIndex++) {
-          const dataKey = `${angleIndex}_${stepIndex}_${channelIndex}`;
-          const packet = this.currentScan.dataPackets.get(dataKey);
-
-          if (packet?.samples) {
-            channels.push({
-              index: channelIndex,
-              samples: [...packet.samples],
-            });
-          }
-        }
-
-        if (channels.length > 0) {
-          steps.push({ index: stepIndex, channels });
+        const step = this.collectStep(angleIndex, stepIndex, missing);
+        if (step.channels.length > 0) {
+          steps.push(step);
         }
       }
 
@@ -286,6 +947,7 @@ export class UltrasonicDataParser {
         angles.push({
           index: angleIndex,
           label: angleConfig.label,
+          degree: angleConfig.degree,
           steps,
         });
       }
@@ -295,39 +957,37 @@ export class UltrasonicDataParser {
       scanId: this.currentScan.scanId,
       config: this.currentScan.config,
       angles,
+      partial: missing.length > 0,
+      missing,
+      reason,
+      timing: this.getTiming(this.currentScan),
     };
 
-    this.onScanComplete?.(completeScanData);
     this.currentScan = null; // Reset for next scan
-  }
-
-  private unpack10BitSamples(dataChunk: Uint8Array): number[] {
-    const samples: number[] = [];
-
-    for (let i = 0; i < dataChunk.length; i += 10) {
-      if (i + 9 >= dataChunk.length) break;
-      const bytes = dataChunk.slice(i, i + 10);
-      const group = this.extract8SamplesFrom10Bytes(bytes);
-      samples.push(...group);
+    if (reason === 'superseded') {
+      this.onScanSuperseded?.(completeScanData);
+    } else {
+      this.onScanComplete?.(completeScanData);
     }
-
-    return samples;
   }
 
-  private extract8SamplesFrom10Bytes(bytes: Uint8Array): number[] {
-    const s0 = ((bytes[0] + bytes[1] * 256) >>> 0) & 0x000003ff;
-    const s1 = ((bytes[1] + bytes[2] * 256) >>> 2) & 0x000003ff;
-    const s2 = ((bytes[2] + bytes[3] * 256) >>> 4) & 0x000003ff;
-    const s3 = ((bytes[3] + bytes[4] * 256) >>> 6) & 0x000003ff;
-    const s4 = ((bytes[5] + bytes[6] * 256) >>> 0) & 0x000003ff;
-    const s5 = ((bytes[6] + bytes[7] * 256) >>> 2) & 0x000003ff;
-    const s6 = ((bytes[7] + bytes[8] * 256) >>> 4) & 0x000003ff;
-    const s7 = ((bytes[8] + bytes[9] * 256) >>> 6) & 0x000003ff;
-    return [s0, s1, s2, s3, s4, s5, s6, s7].map(x => x - 512);
+  /**
+   * ends the scan in flight, if any, as partial with reason `disconnected`.
+   * the owner of the connection calls it when the connection is lost, as
+   * the rest of the scan will never arrive.
+   */
+  public interruptScan(): void {
+    this.completeScan('disconnected');
   }
 
   public reset(): void {
+    this.clearScanTimer();
+    this.stopStatsTimer();
+    this.stats = emptyStats();
+    this.lastStats = emptyStats();
+    this.linkHealth = 'IDLE';
     this.currentScan = null;
-    this.buffer = new Uint8Array(0);
+    this.buffer.clear();
+    this.resetRescan();
   }
 }
\ No newline at end of file
@@ -0,0 +1,106 @@
+const DEFAULT_CAPACITY = 64 * 1024;
+
+/**
+ * Growable byte buffer with read and write cursors, used by the packet
+ * framer to hold received bytes without reallocating on every chunk.
+ *
+ * Unread bytes are always kept contiguous so a whole packet can be viewed
+ * with `peek()` without copying. When the write cursor reaches the end,
+ * unread bytes are moved back to the start; the storage is doubled only
+ * if that does not free enough space. Both cursors return to 0 whenever
+ * the buffer drains.
+ *
+ * Views returned by `peek()` are only valid until the next `write()`.
+ */
+export class ByteRingBuffer {
+  private data: Uint8Array;
+  private readPos = 0;
+  private writePos = 0;
+
+  constructor(capacity: number = DEFAULT_CAPACITY) {
+    this.data = new Uint8Array(capacity);
+  }
+
+  /**
+   * number of unread bytes
+   */
+  public get length(): number {
+    return this.writePos - this.readPos;
+  }
+
+  public write(bytes: Uint8Array): void {
+    this.reserve(bytes.length);
+    this.data.set(bytes, this.writePos);
+    this.writePos += bytes.length;
+  }
+
+  /**
+   * returns a view of `length` unread bytes starting at `offset`
+   */
+  public peek(offset: number, length: number): Uint8Array {
+    const start = this.readPos + offset;
+    return this.data.subarray(start, Math.min(start + length, this.writePos));
+  }
+
+  public peekUint32(offset: number): number {
+    const i = this.readPos + offset;
+    const d = this.data;
+    return (d[i] | (d[i + 1] << 8) | (d[i + 2] << 16) | (d[i + 3] << 24)) >>> 0;
+  }
+
+  /**
+   * returns the offset of the first occurrence of `pattern` in unread
+   * bytes at or after `from`, or -1 if not found
+   */
+  public indexOf(pattern: Uint8Array, from = 0): number {
+    const d = this.data;
+    const last = this.writePos - pattern.length;
+    let i = this.readPos + from;
+
+    while (i <= last) {
+      i = d.indexOf(pattern[0], i);
+      if (i < 0 || i > last) return -1;
+
+      let j = 1;
+      while (j < pattern.length && d[i + j] === pattern[j]) j++;
+      if (j === pattern.length) return i - this.readPos;
+      i++;
+    }
+
+    return -1;
+  }
+
+  /**
+   * consumes `n` bytes
+   */
+  public skip(n: number): void {
+    this.readPos = Math.min(this.readPos + n, this.writePos);
+    if (this.readPos === this.writePos) {
+      this.readPos = 0;
+      this.writePos = 0;
+    }
+  }
+
+  public clear(): void {
+    this.readPos = 0;
+    this.writePos = 0;
+  }
+
+  private reserve(n: number): void {
+    if (this.writePos + n <= this.data.length) return;
+
+    const length = this.length;
+    if (length + n <= this.data.length) {
+      this.data.copyWithin(0, this.readPos, this.writePos);
+    } else {
+      let capacity = this.data.length * 2;
+      while (capacity < length + n) capacity *= 2;
+      const data = new Uint8Array(capacity);
+      data.set(this.data.subarray(this.readPos, this.writePos));
+      this.data = data;
+    }
+
+    this.readPos = 0;
+    this.writePos = length;
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Decoders for the sample format byte of data packets.
+ *
+ * Every decoder turns the data chunk of a packet into signed samples
+ * centered at 0, so the chart and exports don't need to know how the ADC
+ * output was packed on the wire.
+ */
+
+export const SAMPLE_FORMAT_PACKED_10BIT = 0x00;
+export const SAMPLE_FORMAT_PACKED_12BIT = 0x01;
+export const SAMPLE_FORMAT_INT16_LE = 0x02;
+export const SAMPLE_FORMAT_UINT8 = 0x03;
+
+export interface SampleDecoder {
+  // value of the format byte in data packets
+  format: number;
+  name: string;
+  // ADC resolution, samples range from -(2 ** (adcBits - 1)) upwards
+  adcBits: number;
+  decode: (chunk: Uint8Array) => Int16Array;
+}
+
+/**
+ * decodes 8 packed 10-bit samples from `bytes[offset..offset+9]` into
+ * `out[outOffset..outOffset+7]`, returns `out`
+ */
+export const extract8SamplesFrom10Bytes = (
+  bytes: Uint8Array,
+  offset = 0,
+  out: Int16Array = new Int16Array(8),
+  outOffset = 0
+): Int16Array => {
+  const b = bytes;
+  const i = offset;
+  out[outOffset] = (((b[i] | (b[i + 1] << 8)) >>> 0) & 0x3ff) - 512;
+  out[outOffset + 1] = (((b[i + 1] | (b[i + 2] << 8)) >>> 2) & 0x3ff) - 512;
+  out[outOffset + 2] = (((b[i + 2] | (b[i + 3] << 8)) >>> 4) & 0x3ff) - 512;
+  out[outOffset + 3] = (((b[i + 3] | (b[i + 4] << 8)) >>> 6) & 0x3ff) - 512;
+  out[outOffset + 4] = (((b[i + 5] | (b[i + 6] << 8)) >>> 0) & 0x3ff) - 512;
+  out[outOffset + 5] = (((b[i + 6] | (b[i + 7] << 8)) >>> 2) & 0x3ff) - 512;
+  out[outOffset + 6] = (((b[i + 7] | (b[i + 8] << 8)) >>> 4) & 0x3ff) - 512;
+  out[outOffset + 7] = (((b[i + 8] | (b[i + 9] << 8)) >>> 6) & 0x3ff) - 512;
+  return out;
+};
+
+/**
+ * 8 samples in every 10 bytes, a trailing partial group is ignored
+ */
+export const unpack10BitSamples = (chunk: Uint8Array): Int16Array => {
+  const numGroups = Math.floor(chunk.length / 10);
+  const samples = new Int16Array(numGroups * 8);
+
+  for (let i = 0; i < numGroups; i++) {
+    extract8SamplesFrom10Bytes(chunk, i * 10, samples, i * 8);
+  }
+
+  return samples;
+};
+
+/**
+ * 2 samples in every 3 bytes, packed little-endian like the 10-bit format
+ */
+export const unpack12BitSamples = (chunk: Uint8Array): Int16Array => {
+  const numGroups = Math.floor(chunk.length / 3);
+  const samples = new Int16Array(numGroups * 2);
+
+  for (let i = 0; i < numGroups; i++) {
+    const b0 = chunk[i * 3];
+    const b1 = chunk[i * 3 + 1];
+    const b2 = chunk[i * 3 + 2];
+    samples[i * 2] = ((b0 | (b1 << 8)) & 0xfff) - 2048;
+    samples[i * 2 + 1] = ((b1 | (b2 << 8)) >>> 4) - 2048;
+  }
+
+  return samples;
+};
+
+/**
+ * signed 16-bit little-endian, an odd trailing byte is ignored
+ */
+export const unpackInt16LESamples = (chunk: Uint8Array): Int16Array => {
+  const samples = new Int16Array(chunk.length >>> 1);
+  const view = new DataView(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = view.getInt16(i * 2, true);
+  }
+
+  return samples;
+};
+
+/**
+ * unsigned 8-bit offset binary
+ */
+export const unpackUint8Samples = (chunk: Uint8Array): Int16Array => {
+  const samples = new Int16Array(chunk.length);
+
+  for (let i = 0; i < chunk.length; i++) {
+    samples[i] = chunk[i] - 128;
+  }
+
+  return samples;
+};
+
+const decoders = new Map<number, SampleDecoder>();
+
+export const registerSampleDecoder = (decoder: SampleDecoder): void => {
+  decoders.set(decoder.format, decoder);
+};
+
+export const getSampleDecoder = (format: number): SampleDecoder | undefined =>
+  decoders.get(format);
+
+registerSampleDecoder({
+  format: SAMPLE_FORMAT_PACKED_10BIT,
+  name: 'packed10',
+  adcBits: 10,
+  decode: unpack10BitSamples,
+});
+
+registerSampleDecoder({
+  format: SAMPLE_FORMAT_PACKED_12BIT,
+  name: 'packed12',
+  adcBits: 12,
+  decode: unpack12BitSamples,
+});
+
+registerSampleDecoder({
+  format: SAMPLE_FORMAT_INT16_LE,
+  name: 'int16le',
+  adcBits: 16,
+  decode: unpackInt16LESamples,
+});
+
+registerSampleDecoder({
+  format: SAMPLE_FORMAT_UINT8,
+  name: 'uint8',
+  adcBits: 8,
+  decode: unpackUint8Samples,
+});
+
+// decoder used when metadata or a data packet names an unknown format
+export const DEFAULT_SAMPLE_DECODER = getSampleDecoder(
+  SAMPLE_FORMAT_PACKED_10BIT
+) as SampleDecoder;
@@ -1,6 +1,9 @@
 import * as fs from 'fs';
 import * as path from 'path';
 
+import { PACKET_TYPE_METADATA } from './parser';
+import type { CompleteScanData, ScanTiming } from './parser';
+
 export interface ScanData {
   scanId: number;
   metadata: {
@@ -20,15 +23,55 @@ export interface ScanData {
     angleIndex: number;
     stepIndex: number;
     channelIndex: number;
-    samples: number[];
+    samples: Int16Array;
   }>;
   isComplete: boolean;
   timestamp: number;
+  // CompleteScanData.timing, if the scan came from the parser
+  timing?: ScanTiming;
+  // name of the device that sent the scan, if known
+  device?: string;
+}
+
+/**
+ * Converts a scan assembled by the parser, keeping its timing
+ */
+export function scanDataFromComplete(
+  scan: CompleteScanData,
+  timestamp: number = Date.now()
+): ScanData {
+  const dataPackets: ScanData['dataPackets'] = new Map();
+  scan.angles.forEach(angle =>
+    angle.steps.forEach(step =>
+      step.channels.forEach(channel =>
+        dataPackets.set(`${angle.index}_${step.index}_${channel.index}`, {
+          angleIndex: angle.index,
+          stepIndex: step.index,
+          channelIndex: channel.index,
+          samples: channel.samples,
+        })
+      )
+    )
+  );
+
+  return {
+    scanId: scan.scanId,
+    metadata: {
+      packetType: PACKET_TYPE_METADATA,
+      scanId: scan.scanId,
+      scanConfig: { ...scan.config },
+    },
+    dataPackets,
+    isComplete: !scan.partial,
+    timestamp,
+    timing: scan.timing,
+  };
 }
 
 /**
  * Saves scan data to organized folder structure
- * Creates: /data/scan-YYYYMMDD-HHMM/angle_N/step_N.csv
+ * Creates: /data/scan-[device-]YYYYMMDD-HHMMSS/angle_N/step_N.csv, with
+ * config.json and timing.json (if known) next to the angle folders
  */
 export function saveScanData(scanData: ScanData): void {
   try {
@@ -39,8 +82,12 @@ export function saveScanData(scanData: ScanData): void {
     const day = String(scanDate.getDate()).padStart(2, '0');
     const hours = String(scanDate.getHours()).padStart(2, '0');
     const minutes = String(scanDate.getMinutes()).padStart(2, '0');
+    const seconds = String(scanDate.getSeconds()).padStart(2, '0');
+    const device = scanData.device
+      ? `${scanData.device.replace(/[^\w.-]+/g, '_')}-`
+      : '';
     
-    const scanFolderName = `scan-${year}${month}${day}-${hours}${minutes}`;
+    const scanFolderName = `scan-${device}${year}${month}${day}-${hours}${minutes}${seconds}`;
     
     // Create root data folder (permissive if exists)
     const dataRootPath = path.join(process.cwd(), 'data');
@@ -59,6 +106,13 @@ export function saveScanData(scanData: ScanData): void {
     const configPath = path.join(scanFolderPath, 'config.json');
     fs.writeFileSync(configPath, JSON.stringify(scanData.metadata, null, 2), 'utf8');
     console.log(`📁 Saved config.json: ${configPath}`);
+
+    // Save receive timing as timing.json
+    if (scanData.timing) {
+      const timingPath = path.join(scanFolderPath, 'timing.json');
+      fs.writeFileSync(timingPath, JSON.stringify(scanData.timing, null, 2), 'utf8');
+      console.log(`📁 Saved timing.json: ${timingPath}`);
+    }
     
     // Organize data by angle and step
     const organizedData = organizeDataPackets(scanData.dataPackets);
@@ -121,9 +175,9 @@ export function saveScanData(scanData: ScanData): void {
  */
 function organizeDataPackets(
   dataPackets: Map<string, any>
-): Map<string, Map<number, number[]>> {
+): Map<string, Map<number, Int16Array>> {
   
-  const organized = new Map<string, Map<number, number[]>>();
+  const organized = new Map<string, Map<number, Int16Array>>();
   
   // Process each data packet
   for (const [key, packet] of dataPackets) {
@@ -131,7 +185,7 @@ function organizeDataPackets(
     
     // Get or create the step data map
     if (!organized.has(angleStepKey)) {
-      organized.set(angleStepKey, new Map<number, number[]>());
+      organized.set(angleStepKey, new Map<number, Int16Array>());
     }
     
     const stepData = organized.get(angleStepKey)!;
@@ -145,7 +199,7 @@ function organizeDataPackets(
  * Generates CSV content for a single step
  * Format: Header row with channel names, then sample rows with indices
  */
-function generateStepCSV(stepData: Map<number, number[]> | undefined): string {
+function generateStepCSV(stepData: Map<number, Int16Array> | undefined): string {
   if (!stepData || stepData.size === 0) {
     // Empty step - create header only with placeholder
     return 'sample_index,channel_0\n';
@@ -169,7 +223,7 @@ function generateStepCSV(stepData: Map<number, number[]> | undefined): string {
     const row = [
       (sampleIndex + 1).toString(), // 1-based sample index as requested
       ...channelIndices.map(channelIndex => {
-        const samples = stepData.get(channelIndex) || [];
+        const samples = stepData.get(channelIndex) || new Int16Array(0);
         return sampleIndex < samples.length ? samples[sampleIndex].toString() : '';
       })
     ];
@@ -0,0 +1,78 @@
+import * as fs from 'fs';
+
+import type { DeviceAddress, RongbukDevice } from './types/devices';
+import { DEFAULT_TCP_PORT } from './device-commands';
+
+/**
+ * Devices added by address, for networks where bonjour doesn't find them
+ * (see docs/bonjour.md). The addresses are kept in a JSON file, normally
+ * devices.json in the user data folder, so the devices show up next to
+ * discovered ones after a restart.
+ */
+
+// an IPv6 address in brackets, as in URLs
+const withPort = (host: string, port: number): string =>
+  host.indexOf(':') >= 0 ? `[${host}]:${port}` : `${host}:${port}`;
+
+export const deviceFromAddress = ({
+  host,
+  port,
+}: DeviceAddress): RongbukDevice => ({
+  connectionState: 'DISCONNECTED',
+  name: port === DEFAULT_TCP_PORT ? host : withPort(host, port),
+  location: [host],
+  port,
+  saved: true,
+});
+
+const isAddress = (value: unknown): value is DeviceAddress =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as DeviceAddress).host === 'string' &&
+  Number.isInteger((value as DeviceAddress).port);
+
+export class SavedDevices {
+  private addresses: DeviceAddress[] = [];
+
+  constructor(private file: string) {
+    this.load();
+  }
+
+  public list(): RongbukDevice[] {
+    return this.addresses.map(deviceFromAddress);
+  }
+
+  /**
+   * saves `address`, if new, and returns its device
+   */
+  public add(address: DeviceAddress): RongbukDevice {
+    const device = deviceFromAddress(address);
+    if (!this.list().some(x => x.name === device.name)) {
+      this.addresses.push({ host: address.host, port: address.port });
+      this.save();
+    }
+    return device;
+  }
+
+  public remove(name: string): void {
+    const count = this.addresses.length;
+    this.addresses = this.addresses.filter(
+      address => deviceFromAddress(address).name !== name
+    );
+    if (this.addresses.length !== count) this.save();
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.file)) return;
+    try {
+      const doc = JSON.parse(fs.readFileSync(this.file, 'utf8'));
+      this.addresses = Array.isArray(doc) ? doc.filter(isAddress) : [];
+    } catch (e) {
+      console.log(`[saved-devices] ignoring ${this.file}`, e);
+    }
+  }
+
+  private save(): void {
+    fs.writeFileSync(this.file, JSON.stringify(this.addresses, null, 2));
+  }
+}
@@ -0,0 +1,91 @@
+import { SerialPort } from 'serialport';
+import type { SerialPortMock } from 'serialport';
+
+import type { Transport } from './transport';
+
+/**
+ * A Rongbuk device on a serial port. Over serial the device sends the same
+ * packet stream as over TCP and takes the same '\n' terminated JSON scan
+ * configs and commands, so the received bytes go to the same parser.
+ */
+
+export const DEFAULT_BAUD_RATE = 115200;
+
+// SerialPortMock in tests, see MockBinding of @serialport/binding-mock
+export type SerialPortClass = typeof SerialPort | typeof SerialPortMock;
+
+export class SerialTransport implements Transport {
+  public onConnect?: () => void;
+  public onData?: (data: Uint8Array) => void;
+  // the port was closed, by close() or because the device went away
+  public onClose?: () => void;
+  // failing to open, or an error of the open port
+  public onError?: (error: Error) => void;
+
+  private port: SerialPort | SerialPortMock | null = null;
+
+  constructor(
+    public readonly path: string,
+    public readonly baudRate: number = DEFAULT_BAUD_RATE,
+    private Port: SerialPortClass = SerialPort
+  ) {}
+
+  public get description(): string {
+    return `${this.path} at ${this.baudRate} baud`;
+  }
+
+  public get isOpen(): boolean {
+    return this.port?.isOpen ?? false;
+  }
+
+  public connect(): void {
+    if (this.port) return;
+
+    const port = new this.Port({
+      path: this.path,
+      baudRate: this.baudRate,
+      autoOpen: false,
+    });
+    this.port = port;
+
+    port.on('data', (data: Buffer) => this.onData?.(data));
+    port.on('error', (err: Error) => this.onError?.(err));
+    port.on('close', () => {
+      this.port = null;
+      this.onClose?.();
+    });
+
+    port.open(err => {
+      if (err) {
+        this.port = null;
+        this.onError?.(err);
+      } else {
+        this.onConnect?.();
+      }
+    });
+  }
+
+  public write(data: string | Uint8Array): Promise<void> {
+    const port = this.port;
+    if (!port?.isOpen) {
+      return Promise.reject(new Error(`${this.path} is not open`));
+    }
+
+    return new Promise((resolve, reject) => {
+      port.write(data);
+      port.drain(err => (err ? reject(err) : resolve()));
+    });
+  }
+
+  public pause(): void {
+    this.port?.pause();
+  }
+
+  public resume(): void {
+    this.port?.resume();
+  }
+
+  public close(): void {
+    if (this.port?.isOpen) this.port.close();
+  }
+}
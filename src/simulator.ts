@@ -0,0 +1,479 @@
+import * as net from 'net';
+import type { AddressInfo } from 'net';
+import * as Bonjour from 'bonjour';
+
+import { PACKET_TYPE_LOG } from './parser';
+import type { ScanConfig } from './parser';
+import {
+  encodeAckPacket,
+  encodeDataPacket,
+  encodeMetadataJson,
+  encodeMetadataPacket,
+  encodePacket,
+} from './encoder';
+import { validateMetadata } from './metadata-schema';
+import { SAMPLE_FORMAT_PACKED_10BIT } from './sample-formats';
+import { DEFAULT_TCP_PORT } from './device-commands';
+
+/**
+ * A stand-in Rongbuk device on TCP, for working without hardware.
+ *
+ * It takes the '\n' terminated JSON scan configs written by main.ts (see
+ * JsonConfig in ControlPanel.tsx) and answers each with a metadata packet
+ * and a data packet per active channel and step, holding a synthetic echo.
+ * Retransmit requests (see device-commands.ts) are answered with the
+ * packets asked for. Configs and commands with a requestId are answered
+ * with an ack packet, refusing invalid configs with the reason. Unless
+ * `advertise` is false it is published on bonjour as the device firmware
+ * does, see discover-devices.ts.
+ *
+ * Loss, corruption and delays apply to data packets, not to metadata;
+ * retransmitted packets can be lost or corrupted again.
+ */
+
+export interface SimulatorOptions {
+  // 0 picks a free port, see port after start()
+  port?: number;
+  host?: string;
+  // bonjour service name
+  name?: string;
+  advertise?: boolean;
+  // probability that a data packet is not sent
+  lossRate?: number;
+  // probability that a data packet is sent with a byte flipped
+  corruptRate?: number;
+  // wait before answering a config, and between data packets
+  responseDelayMs?: number;
+  packetDelayMs?: number;
+  // same noise, losses and corruptions for the same seed
+  seed?: number;
+}
+
+// the ADC runs at 20 MHz, the probe at 5 MHz
+const SAMPLES_PER_US = 20;
+const ECHO_PERIOD_SAMPLES = 4;
+const ECHO_AMPLITUDE = 300;
+const NOISE_AMPLITUDE = 8;
+const DEFAULT_NUM_CHANNELS = 64;
+
+// mulberry32
+const seededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * the scan the device runs for a submitted config, as the parser will
+ * see it in the metadata. throws if `json` is not a valid scan config,
+ * with the reason the device gives.
+ */
+export const scanConfigFromJson = (
+  json: Record<string, unknown>
+): ScanConfig => {
+  const { name, startUs, endUs, angles, pattern, repeat, tail } = json;
+  if (
+    typeof startUs !== 'number' ||
+    typeof endUs !== 'number' ||
+    !Array.isArray(angles)
+  ) {
+    throw new Error('not a scan config, startUs, endUs or angles missing');
+  }
+
+  const rxApodization = Array.isArray(json.rxApodization)
+    ? (json.rxApodization as number[])
+    : new Array(DEFAULT_NUM_CHANNELS).fill(1);
+  const scanAngles = (angles as { degree: number; masks: number[] }[]).map(
+    ({ degree, masks }) => ({
+      label: degree === 1 ? `${degree} degree` : `${degree} degrees`,
+      degree,
+      numSteps: masks.length,
+      masks,
+    })
+  );
+
+  const config: ScanConfig = {
+    name: typeof name === 'string' ? name : 'simulated',
+    captureStartUs: startUs,
+    captureEndUs: endUs,
+    angles: scanAngles,
+    numAngles: scanAngles.length,
+    totalSteps: scanAngles.reduce((n, angle) => n + angle.numSteps, 0),
+    rxApodization,
+    numChannels: rxApodization.length,
+    activeChannels: rxApodization
+      .map((flag, channel) => (flag ? channel : -1))
+      .filter(channel => channel >= 0),
+    sampleFormat: 'packed10',
+    adcBits: 10,
+    pattern: pattern as [number, number][],
+    repeat: repeat as number,
+    tail: tail as number,
+    extra: {},
+    raw: {},
+  };
+
+  // the ranges the firmware accepts are those of the metadata it sends
+  const { errors } = validateMetadata(JSON.parse(encodeMetadataJson(config)));
+  if (errors.length > 0) {
+    throw new Error(errors.join('; '));
+  }
+  return config;
+};
+
+/**
+ * a 5 MHz burst reflected from a point in the middle of the window, its
+ * arrival shifted across the aperture by the steering angle
+ */
+const echoSamples = (
+  config: ScanConfig,
+  angleIndex: number,
+  channelIndex: number,
+  random: () => number
+): Int16Array => {
+  const numSamples =
+    (config.captureEndUs - config.captureStartUs) * SAMPLES_PER_US;
+  const samples = new Int16Array(numSamples);
+  const aperture = channelIndex / config.numChannels - 0.5;
+  const slope = Math.sin((config.angles[angleIndex].degree * Math.PI) / 180);
+  const arrival = numSamples * (0.5 + 0.2 * aperture * slope);
+  const width = 2 * ECHO_PERIOD_SAMPLES;
+
+  for (let i = 0; i < numSamples; i++) {
+    const t = (i - arrival) / width;
+    const echo =
+      ECHO_AMPLITUDE *
+      Math.exp(-t * t) *
+      Math.sin((2 * Math.PI * i) / ECHO_PERIOD_SAMPLES);
+    samples[i] = Math.round(echo + (random() * 2 - 1) * NOISE_AMPLITUDE);
+  }
+  return samples;
+};
+
+/**
+ * why the `[angle, step, channel]` triples of a retransmit request are not
+ * packets of `config`, or null if they all are
+ */
+const invalidRetransmit = (
+  config: ScanConfig,
+  packets: unknown
+): string | null => {
+  if (!Array.isArray(packets)) return 'packets missing';
+  for (const packet of packets) {
+    if (
+      !Array.isArray(packet) ||
+      packet.length !== 3 ||
+      !packet.every(index => Number.isInteger(index))
+    ) {
+      return `invalid packet ${JSON.stringify(packet)}`;
+    }
+    const [angle, step, channel] = packet as number[];
+    if (
+      angle < 0 ||
+      angle >= config.angles.length ||
+      step < 0 ||
+      step >= config.angles[angle].numSteps ||
+      config.activeChannels.indexOf(channel) < 0
+    ) {
+      return `no packet ${angle}_${step}_${channel} in the scan`;
+    }
+  }
+  return null;
+};
+
+export class RongbukSimulator {
+  // a scan config or command line received, for tests and logs
+  public onMessage?: (message: Record<string, unknown>) => void;
+
+  private server: net.Server | null = null;
+  private bonjour: Bonjour.Bonjour | null = null;
+  private sockets = new Set<net.Socket>();
+  private random: () => number;
+  private scanId = 0;
+  // the last scan, for retransmit requests
+  private lastScan: ScanConfig | null = null;
+  // start() until stop()
+  private starting: Promise<number> | null = null;
+
+  constructor(private options: SimulatorOptions = {}) {
+    this.random =
+      options.seed === undefined ? Math.random : seededRandom(options.seed);
+  }
+
+  public get port(): number {
+    return (this.server?.address() as AddressInfo)?.port ?? 0;
+  }
+
+  public get name(): string {
+    return this.options.name ?? 'rongbuk-simulator';
+  }
+
+  /**
+   * changes loss, corruption or delays, for the packets sent from now on
+   */
+  public configure(
+    options: Pick<
+      SimulatorOptions,
+      'lossRate' | 'corruptRate' | 'responseDelayMs' | 'packetDelayMs'
+    >
+  ): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * resolves with the port listened on
+   */
+  public start(): Promise<number> {
+    this.starting = new Promise((resolve, reject) => {
+      const server = net.createServer(socket => this.accept(socket));
+      server.once('error', reject);
+      server.listen(
+        this.options.port ?? DEFAULT_TCP_PORT,
+        this.options.host ?? '0.0.0.0',
+        () => {
+          this.server = server;
+          if (this.options.advertise ?? true) {
+            this.bonjour = Bonjour.default();
+            this.bonjour.publish({
+              name: this.name,
+              type: 'sonic',
+              port: this.port,
+            });
+          }
+          console.log(`simulator ${this.name} listening on ${this.port}`);
+          resolve(this.port);
+        }
+      );
+    });
+    return this.starting;
+  }
+
+  /**
+   * a start() still in progress is waited for, the server is closed once
+   * it listens
+   */
+  public stop(): Promise<void> {
+    const started = this.starting ?? Promise.resolve(0);
+    this.starting = null;
+    return started.then(
+      () => this.close(),
+      () => this.close()
+    );
+  }
+
+  private close(): Promise<void> {
+    return new Promise(resolve => {
+      this.sockets.forEach(socket => socket.destroy());
+      if (this.bonjour) {
+        this.bonjour.unpublishAll();
+        this.bonjour.destroy();
+        this.bonjour = null;
+      }
+      if (this.server) {
+        this.server.close(() => resolve());
+        this.server = null;
+      } else {
+        resolve();
+      }
+    });
+  }
+
+  private accept(socket: net.Socket): void {
+    this.sockets.add(socket);
+    let pending = '';
+    // cancel functions of the packets still being sent
+    const sending = new Set<() => void>();
+    const cancelAll = () => sending.forEach(cancel => cancel());
+
+    socket.on('data', data => {
+      pending += data.toString();
+      let end: number;
+      while ((end = pending.indexOf('\n')) >= 0) {
+        const line = pending.slice(0, end).trim();
+        pending = pending.slice(end + 1);
+        if (line) this.handleLine(socket, line, sending, cancelAll);
+      }
+    });
+    socket.on('error', err => console.log('simulator socket error', err));
+    socket.on('close', () => {
+      cancelAll();
+      this.sockets.delete(socket);
+    });
+  }
+
+  private handleLine(
+    socket: net.Socket,
+    line: string,
+    sending: Set<() => void>,
+    cancelAll: () => void
+  ): void {
+    let message: Record<string, unknown>;
+    try {
+      message = JSON.parse(line);
+    } catch (e) {
+      this.log(socket, `invalid JSON: ${line}`);
+      return;
+    }
+    // configs and commands are JSON objects
+    if (
+      typeof message !== 'object' ||
+      message === null ||
+      Array.isArray(message)
+    ) {
+      this.log(socket, `not a config or command: ${line}`);
+      return;
+    }
+    this.onMessage?.(message);
+
+    if (message.command === 'retransmit') {
+      if (!this.lastScan || message.scanId !== this.scanId) {
+        this.refuse(socket, message, `scan ${message.scanId} is gone`);
+        return;
+      }
+      const invalid = invalidRetransmit(this.lastScan, message.packets);
+      if (invalid) {
+        this.refuse(socket, message, invalid);
+        return;
+      }
+      this.acknowledge(socket, message);
+      const packets = message.packets as number[][];
+      const resend = packets.map(([angle, step, channel]) =>
+        this.dataPacket(this.lastScan, angle, step, channel)
+      );
+      this.send(socket, resend, 0, sending);
+      return;
+    }
+    if (message.command !== undefined) {
+      this.refuse(socket, message, `unknown command ${message.command}`);
+      return;
+    }
+
+    let config: ScanConfig;
+    try {
+      config = scanConfigFromJson(message);
+    } catch (e) {
+      this.refuse(socket, message, (e as Error).message);
+      return;
+    }
+    this.acknowledge(socket, message);
+
+    // a new config supersedes the scan being sent
+    cancelAll();
+    this.scanId = (this.scanId + 1) & 0xffffff;
+    this.lastScan = config;
+    socket.write(encodeMetadataPacket(this.scanId, config));
+
+    const packets: Uint8Array[] = [];
+    config.angles.forEach((angle, angleIndex) => {
+      for (let stepIndex = 0; stepIndex < angle.numSteps; stepIndex++) {
+        for (const channelIndex of config.activeChannels) {
+          packets.push(
+            this.dataPacket(config, angleIndex, stepIndex, channelIndex)
+          );
+        }
+      }
+    });
+    this.send(socket, packets, this.options.responseDelayMs ?? 0, sending);
+  }
+
+  private dataPacket(
+    config: ScanConfig,
+    angleIndex: number,
+    stepIndex: number,
+    channelIndex: number
+  ): Uint8Array {
+    return encodeDataPacket({
+      scanId: this.scanId,
+      angleIndex,
+      stepIndex,
+      channelIndex,
+      sampleFormat: SAMPLE_FORMAT_PACKED_10BIT,
+      samples: echoSamples(config, angleIndex, channelIndex, this.random),
+    });
+  }
+
+  /**
+   * sends `packets` with the configured loss, corruption and delays. its
+   * cancel function is in `sending` until all are sent.
+   */
+  private send(
+    socket: net.Socket,
+    packets: Uint8Array[],
+    delayMs: number,
+    sending: Set<() => void>
+  ): void {
+    const { lossRate = 0, corruptRate = 0, packetDelayMs = 0 } = this.options;
+    let timer: NodeJS.Timeout | null = null;
+    let next = 0;
+
+    const cancel = () => {
+      if (timer !== null) clearTimeout(timer);
+      timer = null;
+      sending.delete(cancel);
+    };
+    sending.add(cancel);
+
+    const sendNext = () => {
+      timer = null;
+      while (next < packets.length && !socket.destroyed) {
+        const packet = packets[next++];
+        if (this.random() < lossRate) continue;
+        if (this.random() < corruptRate) {
+          const corrupted = packet.slice();
+          // a payload byte, the CRC won't match
+          const offset = 12 + Math.floor(this.random() * (packet.length - 16));
+          corrupted[offset] ^= 0xff;
+          socket.write(corrupted);
+        } else {
+          socket.write(packet);
+        }
+        if (packetDelayMs > 0 && next < packets.length) {
+          timer = setTimeout(sendNext, packetDelayMs);
+          return;
+        }
+      }
+      sending.delete(cancel);
+    };
+
+    if (delayMs > 0) timer = setTimeout(sendNext, delayMs);
+    else sendNext();
+  }
+
+  // acks a request, if it has a requestId
+  private acknowledge(
+    socket: net.Socket,
+    message: Record<string, unknown>
+  ): void {
+    if (typeof message.requestId === 'number') {
+      socket.write(encodeAckPacket({ requestId: message.requestId, ok: true }));
+    }
+  }
+
+  // refuses a request with an ack, or logs why if it has no requestId
+  private refuse(
+    socket: net.Socket,
+    message: Record<string, unknown>,
+    error: string
+  ): void {
+    if (typeof message.requestId === 'number') {
+      console.log(`simulator: request ${message.requestId} refused, ${error}`);
+      socket.write(
+        encodeAckPacket({ requestId: message.requestId, ok: false, error })
+      );
+    } else {
+      this.log(socket, error);
+    }
+  }
+
+  private log(socket: net.Socket, text: string): void {
+    console.log(`simulator: ${text}`);
+    socket.write(
+      encodePacket(PACKET_TYPE_LOG, 0, new TextEncoder().encode(text))
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import * as net from 'net';
+
+import type { Transport } from './transport';
+import { DEFAULT_TCP_PORT } from './device-commands';
+
+// time for a device to accept a probe connection
+const DEFAULT_PROBE_TIMEOUT_MS = 3000;
+
+/**
+ * resolves if something at `host` and `port` accepts a connection, which is
+ * closed again right away
+ */
+export const probeTcp = (
+  host: string,
+  port: number = DEFAULT_TCP_PORT,
+  timeoutMs: number = DEFAULT_PROBE_TIMEOUT_MS
+): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const socket = net.createConnection(port, host);
+    socket.setTimeout(timeoutMs, () => {
+      socket.destroy();
+      reject(new Error(`${host}:${port} did not answer in ${timeoutMs} ms`));
+    });
+    socket.on('connect', () => {
+      socket.destroy();
+      resolve();
+    });
+    socket.on('error', reject);
+  });
+
+/**
+ * A Rongbuk device on the network
+ */
+export class TcpTransport implements Transport {
+  public onConnect?: () => void;
+  public onData?: (data: Uint8Array) => void;
+  public onClose?: () => void;
+  public onError?: (error: Error) => void;
+
+  private socket: net.Socket | null = null;
+  private connected = false;
+
+  constructor(
+    public readonly host: string,
+    public readonly port: number = DEFAULT_TCP_PORT
+  ) {}
+
+  public get description(): string {
+    return `${this.host}:${this.port}`;
+  }
+
+  public connect(): void {
+    if (this.socket) return;
+
+    const socket = net.createConnection(this.port, this.host);
+    this.socket = socket;
+
+    socket.on('connect', () => {
+      this.connected = true;
+      this.onConnect?.();
+    });
+    socket.on('data', data => this.onData?.(data));
+    socket.on('error', err => this.onError?.(err));
+    // also follows a failed connection attempt, which is not reported
+    socket.on('close', () => {
+      this.socket = null;
+      if (this.connected) {
+        this.connected = false;
+        this.onClose?.();
+      }
+    });
+  }
+
+  public write(data: string | Uint8Array): Promise<void> {
+    const socket = this.socket;
+    if (!this.connected || !socket) {
+      return Promise.reject(new Error(`${this.description} is not connected`));
+    }
+
+    return new Promise((resolve, reject) => {
+      socket.write(data, err => (err ? reject(err) : resolve()));
+    });
+  }
+
+  public pause(): void {
+    this.socket?.pause();
+  }
+
+  public resume(): void {
+    this.socket?.resume();
+  }
+
+  public close(): void {
+    this.socket?.destroy();
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * A byte stream to a Rongbuk device. The device sends packets (see
+ * parser.ts) and takes scan configs and commands, one line of JSON each
+ * (see device-commands.ts), whether it is reached over TCP or a serial
+ * port, or stands in as a file of recorded data.
+ *
+ * Events are callbacks, like those of the parser. After connect() either
+ * onConnect or onError follows; onClose only follows onConnect, after the
+ * connection ended for any reason.
+ */
+export interface Transport {
+  // where the transport connects to, for logs and error messages
+  readonly description: string;
+
+  onConnect?: () => void;
+  // `receivedAt` is given by replays of capture files only, see capture.ts
+  onData?: (data: Uint8Array, receivedAt?: number) => void;
+  onClose?: () => void;
+  // failing to connect, or an error of the open connection
+  onError?: (error: Error) => void;
+  // true once a replay closed at the end of its data, nothing to reconnect
+  readonly ended?: boolean;
+
+  connect(): void;
+  // resolves once `data` has been handed to the system
+  write(data: string | Uint8Array): Promise<void>;
+  // stops onData until resume(), for backpressure
+  pause(): void;
+  resume(): void;
+  close(): void;
+}
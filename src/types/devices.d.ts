@@ -39,7 +39,16 @@
  */
 
 import { JsonConfig } from 'src/ControlPanel';
-import { CompleteScanData, ScanConfig } from 'src/parser';
+import { ReplaySpeed } from '../file-transport';
+import { RequestResult } from '../device-commands';
+import {
+  CompleteScanData,
+  DeviceStatus,
+  LinkHealth,
+  ParserStats,
+  ScanConfig,
+  StepData,
+} from 'src/parser';
 
 export type ConnectionState =
   | 'CONNECTED'
@@ -49,6 +58,19 @@ export type ConnectionState =
 
 export type Frac = [number, number];
 
+// a step of the scan in progress, see UltrasonicDataParser.onStepComplete
+export interface StepUpdate {
+  angleIndex: number;
+  step: StepData;
+}
+
+// a parser event of the device named `device`, every device has its own
+// parser, see device-sessions.ts
+export interface DeviceEvent<T> {
+  device: string;
+  data: T;
+}
+
 /**
  * Rongbuk is the codename of the ultrasonic scanner hardware in this project
  */
@@ -56,6 +78,34 @@ export interface RongbukDevice {
   connectionState: ConnectionState; // CONNECTED, DISCONNECTED
   name: string; // friendly name for serial case, name for network case
   location: string | string[]; // string for comport path, string[] for addreses.
+  baudRate?: number; // serial case only
+  port?: number; // network case, 7332 if not given
+  saved?: boolean; // added by address, see saved-devices.ts
+  replay?: CaptureReplay; // a capture file standing in for the device
+}
+
+// replay of a capture file, see capture.ts
+export interface CaptureReplay {
+  file: string;
+  speed: ReplaySpeed;
+}
+
+// host (IP address or hostname) and port typed by the user
+export interface DeviceAddress {
+  host: string;
+  port: number;
+}
+
+// reply to user-add-device, `error` is set if the device didn't answer
+export interface DeviceAddResult extends DeviceAddress {
+  error?: string;
+}
+
+// user-submit-scan-config, `devices` are the names of the devices the
+// window expects answers from
+export interface ScanConfigSubmit {
+  config: JsonConfig;
+  devices: string[];
 }
 
 // Minimal IPC channels
@@ -77,9 +127,30 @@ export interface IPCChannels {
   'user-connect-device': RongbukDevice;
   'user-disconnect-device': RongbukDevice;
 
-  'user-submit-scan-config': JsonConfig;
+  // browser window asks main process to add a device by address, main process
+  // checks that it answers, saves it, and replies with device-add-result
+  // (and device-update on success)
+  'user-add-device': DeviceAddress;
+  'device-add-result': DeviceAddResult;
+  // browser window tells main process to forget a saved device
+  'user-remove-device': RongbukDevice;
+
+  // sent to each of `devices`, each answers with device-submit-result
+  'user-submit-scan-config': ScanConfigSubmit;
+  'device-submit-result': DeviceEvent<RequestResult>;
+
+  'device-scancfg': DeviceEvent<ScanConfig>;
+  'device-pktrcvd': DeviceEvent<number>;
+  // every step as soon as all its channels arrived, before device-scandata
+  'device-stepdata': DeviceEvent<StepUpdate>;
+  'device-scandata': DeviceEvent<CompleteScanData>;
+
+  // parser diagnostics, see ParserStats and LinkHealth
+  'device-parser-stats': DeviceEvent<ParserStats>;
+  'device-link-health': DeviceEvent<LinkHealth>;
+  'device-parse-error': DeviceEvent<string>;
 
-  'device-scancfg': ScanConfig;
-  'device-pktrcvd': number;
-  'device-scandata': CompleteScanData;
+  // status and log packets sent by the device firmware
+  'device-status': DeviceEvent<DeviceStatus>;
+  'device-log': DeviceEvent<string>;
 }
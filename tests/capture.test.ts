@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import {
+  CaptureWriter,
+  decodeCapture,
+  encodeCaptureChunk,
+  encodeCaptureHeader,
+  readCapture,
+} from '../src/capture';
+
+const concat = (...parts: Uint8Array[]): Uint8Array =>
+  new Uint8Array(Buffer.concat(parts));
+
+describe('capture files', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rongbuk-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should keep chunks and their receive times', () => {
+    const bytes = concat(
+      encodeCaptureHeader(),
+      encodeCaptureChunk(new Uint8Array([1, 2, 3]), 1700000000000.25),
+      encodeCaptureChunk(new Uint8Array(0), 1700000000001.5),
+      encodeCaptureChunk(new Uint8Array([4]), 1700000000002)
+    );
+
+    const { chunks, truncated } = decodeCapture(bytes);
+    expect(truncated).toBe(false);
+    expect(chunks.map(chunk => chunk.receivedAt)).toEqual([
+      1700000000000.25, 1700000000001.5, 1700000000002,
+    ]);
+    expect(chunks.map(chunk => [...chunk.data])).toEqual([[1, 2, 3], [], [4]]);
+  });
+
+  it('should drop an incomplete last chunk', () => {
+    const chunk = encodeCaptureChunk(new Uint8Array([1, 2, 3]), 1);
+    const bytes = concat(encodeCaptureHeader(), chunk, chunk.subarray(0, 13));
+
+    const { chunks, truncated } = decodeCapture(bytes);
+    expect(chunks).toHaveLength(1);
+    expect(truncated).toBe(true);
+  });
+
+  it('should reject other files', () => {
+    expect(() => decodeCapture(new Uint8Array([1, 2, 3]))).toThrow(
+      'not a capture file'
+    );
+    const header = encodeCaptureHeader();
+    header[4] = 2;
+    expect(() => decodeCapture(header)).toThrow('version 2');
+  });
+
+  it('should write a file that reads back', async () => {
+    const file = path.join(dir, 'written.rbcap');
+    const writer = new CaptureWriter(file);
+    writer.write(new Uint8Array([5, 6]), 10);
+    writer.write(new Uint8Array([7]), 20);
+    await writer.close();
+
+    const { chunks } = await readCapture(file);
+    expect(chunks.map(({ receivedAt, data }) => [receivedAt, ...data])).toEqual(
+      [
+        [10, 5, 6],
+        [20, 7],
+      ]
+    );
+  });
+});
@@ -0,0 +1,408 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { ConnectionManager } from '../src/connection-manager';
+import type { DeviceParser } from '../src/connection-manager';
+import { UltrasonicDataParser } from '../src/parser';
+import type { ScanConfig } from '../src/parser';
+import type { Transport } from '../src/transport';
+import type { RongbukDevice } from '../src/types/devices';
+import { encodeAckPacket, encodeScan } from '../src/encoder';
+import { readCapture } from '../src/capture';
+
+// a transport driven by the test
+class FakeTransport implements Transport {
+  public description = 'fake';
+  public onConnect?: () => void;
+  public onData?: (data: Uint8Array) => void;
+  public onClose?: () => void;
+  public onError?: (error: Error) => void;
+
+  public written: string[] = [];
+  public paused = false;
+  public ended = false;
+  public connect = vi.fn();
+  public close = vi.fn(() => this.onClose?.());
+
+  public write(data: string | Uint8Array): Promise<void> {
+    this.written.push(data.toString());
+    return Promise.resolve();
+  }
+
+  public pause(): void {
+    this.paused = true;
+  }
+
+  public resume(): void {
+    this.paused = false;
+  }
+}
+
+const device: RongbukDevice = {
+  connectionState: 'DISCONNECTED',
+  name: 'rongbuk-6767b0',
+  location: ['192.168.3.119'],
+};
+
+const config: ScanConfig = {
+  name: 'manager',
+  captureStartUs: 40,
+  captureEndUs: 80,
+  angles: [{ label: '0 degrees', degree: 0, numSteps: 2, masks: [1, 2] }],
+  numAngles: 1,
+  totalSteps: 2,
+  rxApodization: [1, 1],
+  numChannels: 2,
+  activeChannels: [0, 1],
+  sampleFormat: 'packed10',
+  adcBits: 10,
+  extra: {},
+  raw: {},
+};
+
+const setup = (
+  parser: DeviceParser = new UltrasonicDataParser({ scanTimeoutMs: 0 })
+) => {
+  const transport = new FakeTransport();
+  const connection = new ConnectionManager(parser, {
+    createTransport: () => transport,
+  });
+  const states: string[] = [];
+  connection.onStateChange = device => states.push(device.connectionState);
+  return { parser, transport, connection, states };
+};
+
+describe('connection manager', () => {
+  it('should track the connection state of the device', () => {
+    const { transport, connection, states } = setup();
+
+    expect(connection.connect(device)).toBe(true);
+    expect(transport.connect).toHaveBeenCalledTimes(1);
+    // one device at a time
+    expect(connection.connect(device)).toBe(false);
+
+    transport.onConnect?.();
+    expect(connection.state).toBe('CONNECTED');
+    connection.disconnect(device);
+
+    expect(states).toEqual([
+      'CONNECTING',
+      'CONNECTED',
+      'DISCONNECTING',
+      'DISCONNECTED',
+    ]);
+    // the caller's device is not modified
+    expect(device.connectionState).toBe('DISCONNECTED');
+  });
+
+  it('should report a failed connection attempt', () => {
+    const { transport, connection, states } = setup();
+    const onConnectError = vi.fn();
+    connection.onConnectError = onConnectError;
+
+    connection.connect(device);
+    transport.onError?.(new Error('ECONNREFUSED'));
+
+    expect(states).toEqual(['CONNECTING', 'DISCONNECTED']);
+    expect(onConnectError).toHaveBeenCalledWith(
+      expect.objectContaining({ name: device.name }),
+      new Error('ECONNREFUSED')
+    );
+    expect(connection.connect(device)).toBe(true);
+  });
+
+  it('should close the connection on errors once connected', () => {
+    const { transport, connection, states } = setup();
+
+    connection.connect(device);
+    transport.onConnect?.();
+    transport.onError?.(new Error('ECONNRESET'));
+
+    expect(transport.close).toHaveBeenCalledTimes(1);
+    expect(states).toEqual(['CONNECTING', 'CONNECTED', 'DISCONNECTED']);
+  });
+
+  it('should close the connection when the parser fails', () => {
+    const { parser, transport, connection, states } = setup();
+
+    connection.connect(device);
+    transport.onConnect?.();
+    parser.onFailed?.(new Error('crashed'));
+
+    expect(transport.close).toHaveBeenCalledTimes(1);
+    expect(states).toEqual([
+      'CONNECTING',
+      'CONNECTED',
+      'DISCONNECTING',
+      'DISCONNECTED',
+    ]);
+  });
+
+  it('should feed the parser and send configs and retransmit requests', async () => {
+    vi.useFakeTimers();
+    const parser = new UltrasonicDataParser({ scanTimeoutMs: 1000 });
+    const { transport, connection } = setup(parser);
+    const onScanComplete = vi.fn();
+    parser.onScanComplete = onScanComplete;
+
+    await expect(connection.write('{}\n')).rejects.toThrow('no device');
+    connection.connect(device);
+    transport.onConnect?.();
+    await connection.write('{"name":"manager"}\n');
+
+    const [metadata, ...packets] = encodeScan(
+      2,
+      config,
+      () => new Int16Array(8)
+    );
+    transport.onData?.(metadata);
+    transport.onData?.(packets[0]);
+    vi.advanceTimersByTime(1000);
+    vi.useRealTimers();
+
+    expect(transport.written[0]).toBe('{"name":"manager"}\n');
+    expect(JSON.parse(transport.written[1])).toEqual({
+      command: 'retransmit',
+      scanId: 2,
+      packets: [
+        [0, 0, 1],
+        [0, 1, 0],
+        [0, 1, 1],
+      ],
+    });
+    expect(onScanComplete).not.toHaveBeenCalled();
+  });
+
+  it('should record received bytes with the times given to the parser', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rongbuk-'));
+    const file = path.join(dir, 'recorded.rbcap');
+    const parser = {
+      processData: vi.fn(),
+      reset: vi.fn(),
+      interruptScan: vi.fn(),
+    };
+    const { transport, connection } = setup(parser);
+
+    connection.connect(device);
+    transport.onConnect?.();
+    transport.onData?.(new Uint8Array([1, 2]));
+    connection.startRecording(file);
+    expect(connection.recording).toBe(file);
+    transport.onData?.(new Uint8Array([3]));
+    transport.onData?.(new Uint8Array([4, 5]));
+    await connection.stopRecording();
+
+    const { chunks } = await readCapture(file);
+    fs.rmSync(dir, { recursive: true, force: true });
+    expect(chunks.map(chunk => [...chunk.data])).toEqual([[3], [4, 5]]);
+    expect(chunks.map(chunk => chunk.receivedAt)).toEqual(
+      parser.processData.mock.calls.slice(1).map(call => call[1])
+    );
+    expect(connection.recording).toBe(null);
+  });
+
+  it('should pause the transport while the parser is behind', () => {
+    const parser: DeviceParser = {
+      processData: vi.fn(() => false),
+      reset: vi.fn(),
+      interruptScan: vi.fn(),
+    };
+    const { transport, connection } = setup(parser);
+
+    connection.connect(device);
+    transport.onConnect?.();
+    expect(parser.reset).toHaveBeenCalledTimes(1);
+
+    transport.onData?.(new Uint8Array(4));
+    expect(transport.paused).toBe(true);
+    parser.onDrain?.();
+    expect(transport.paused).toBe(false);
+  });
+});
+
+describe('requests', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // connected, with the requests written so far
+  const setupRequests = (ackTimeoutMs = 5000) => {
+    const transport = new FakeTransport();
+    const connection = new ConnectionManager(
+      new UltrasonicDataParser({ scanTimeoutMs: 0 }),
+      { createTransport: () => transport, ackTimeoutMs }
+    );
+    connection.connect(device);
+    transport.onConnect?.();
+    const sent = () =>
+      transport.written.map(line => JSON.parse(line).requestId as number);
+    return { transport, connection, sent };
+  };
+
+  it('should resolve with the ack of the device', async () => {
+    const { transport, connection, sent } = setupRequests();
+
+    const first = connection.request({ command: 'status' });
+    const second = connection.request(config.raw);
+    expect(sent()).toEqual([1, 2]);
+    expect(transport.written[0]).toBe('{"command":"status","requestId":1}\n');
+
+    transport.onData?.(
+      encodeAckPacket({ requestId: 2, ok: false, error: 'bad startUs' })
+    );
+    transport.onData?.(encodeAckPacket({ requestId: 1, ok: true }));
+
+    expect(await first).toEqual({ requestId: 1, status: 'accepted' });
+    expect(await second).toEqual({
+      requestId: 2,
+      status: 'rejected',
+      error: 'bad startUs',
+    });
+  });
+
+  it('should time out a request the device does not answer', async () => {
+    vi.useFakeTimers();
+    const { transport, connection } = setupRequests(100);
+
+    const result = connection.request({ command: 'status' });
+    vi.advanceTimersByTime(100);
+    // too late
+    transport.onData?.(encodeAckPacket({ requestId: 1, ok: true }));
+
+    expect(await result).toEqual({
+      requestId: 1,
+      status: 'timeout',
+      error: 'no answer in 100 ms',
+    });
+  });
+
+  it('should fail requests when the connection is gone', async () => {
+    const { transport, connection } = setupRequests();
+
+    const pending = connection.request({ command: 'status' });
+    transport.onClose?.();
+
+    expect(await pending).toMatchObject({
+      status: 'failed',
+      error: 'connection closed',
+    });
+    expect(await connection.request({ command: 'status' })).toMatchObject({
+      status: 'failed',
+      error: 'no device connected',
+    });
+  });
+});
+
+describe('reconnect', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // every attempt gets a new transport
+  const setupReconnect = (parser = new UltrasonicDataParser()) => {
+    const transports: FakeTransport[] = [];
+    const connection = new ConnectionManager(parser, {
+      createTransport: () => {
+        transports.push(new FakeTransport());
+        return transports[transports.length - 1];
+      },
+      reconnect: true,
+      reconnectDelayMs: 100,
+      maxReconnectDelayMs: 300,
+    });
+    const states: string[] = [];
+    connection.onStateChange = device => states.push(device.connectionState);
+    return { parser, transports, connection, states };
+  };
+
+  it('should retry a lost connection with backoff', () => {
+    const { transports, connection, states } = setupReconnect();
+    const onConnectError = vi.fn();
+    connection.onConnectError = onConnectError;
+
+    connection.connect(device);
+    transports[0].onConnect?.();
+    transports[0].onClose?.();
+    expect(connection.state).toBe('CONNECTING');
+
+    // 100, 200, then at most 300 ms between attempts
+    for (const delay of [100, 200, 300]) {
+      vi.advanceTimersByTime(delay - 1);
+      const attempts = transports.length;
+      vi.advanceTimersByTime(1);
+      expect(transports).toHaveLength(attempts + 1);
+      expect(transports[attempts].connect).toHaveBeenCalledTimes(1);
+      if (delay < 300) transports[attempts].onError?.(new Error('refused'));
+    }
+    transports[3].onConnect?.();
+
+    expect(states).toEqual([
+      'CONNECTING',
+      'CONNECTED',
+      'CONNECTING',
+      'CONNECTED',
+    ]);
+    // retries fail quietly
+    expect(onConnectError).not.toHaveBeenCalled();
+  });
+
+  it('should end the interrupted scan and stop retrying on disconnect', () => {
+    const { parser, transports, connection, states } = setupReconnect();
+    const onScanComplete = vi.fn();
+    parser.onScanComplete = onScanComplete;
+
+    connection.connect(device);
+    transports[0].onConnect?.();
+    const [metadata, packet] = encodeScan(4, config, () => new Int16Array(8));
+    transports[0].onData?.(metadata);
+    transports[0].onData?.(packet);
+    transports[0].onClose?.();
+
+    expect(onScanComplete).toHaveBeenCalledTimes(1);
+    const data = onScanComplete.mock.calls[0][0];
+    expect(data.reason).toBe('disconnected');
+    expect(data.partial).toBe(true);
+    expect(data.missing).toHaveLength(3);
+
+    connection.disconnect(device);
+    vi.advanceTimersByTime(1000);
+    expect(transports).toHaveLength(1);
+    expect(states).toEqual([
+      'CONNECTING',
+      'CONNECTED',
+      'CONNECTING',
+      'DISCONNECTED',
+    ]);
+  });
+
+  it('should not retry when a replay ends', () => {
+    const { transports, connection, states } = setupReconnect();
+
+    connection.connect(device);
+    transports[0].onConnect?.();
+    transports[0].ended = true;
+    transports[0].onClose?.();
+    vi.advanceTimersByTime(1000);
+
+    expect(transports).toHaveLength(1);
+    expect(states).toEqual(['CONNECTING', 'CONNECTED', 'DISCONNECTED']);
+  });
+
+  it('should not retry after the user disconnects', () => {
+    const { transports, connection, states } = setupReconnect();
+
+    connection.connect(device);
+    transports[0].onConnect?.();
+    connection.disconnect(device);
+    vi.advanceTimersByTime(1000);
+
+    expect(transports).toHaveLength(1);
+    expect(states[states.length - 1]).toBe('DISCONNECTED');
+  });
+});
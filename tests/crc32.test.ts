@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { Stm32Crc32, stm32h7_crc32, stm32h7_crc32_bytes } from '../src/crc32';
+
+// bit-by-bit reference, words shifted in MSB first as the STM32 does
+const referenceCrc = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  const feed = (value: number, bits: number) => {
+    crc = (crc ^ (value << (32 - bits))) >>> 0;
+    for (let j = 0; j < bits; j++) {
+      if (crc & 0x80000000) crc = ((crc << 1) >>> 0) ^ 0x04c11db7;
+      else crc = (crc << 1) >>> 0;
+    }
+  };
+
+  const numWords = Math.floor(bytes.length / 4);
+  for (let i = 0; i < numWords * 4; i += 4) {
+    feed(
+      (bytes[i] | (bytes[i + 1] << 8) | (bytes[i + 2] << 16)) +
+        bytes[i + 3] * 0x1000000,
+      32
+    );
+  }
+  for (let i = numWords * 4; i < bytes.length; i++) {
+    feed(bytes[i], 8);
+  }
+  return crc >>> 0;
+};
+
+const randomBytes = (length: number): Uint8Array =>
+  Uint8Array.from({ length }, (_, i) => (i * 7919 + 13) & 0xff);
+
+describe('table driven CRC', () => {
+  it('should match the bitwise reference on words', () => {
+    const bytes = randomBytes(1024);
+    const words = new Uint32Array(bytes.buffer);
+    expect(stm32h7_crc32(words)).toBe(referenceCrc(bytes));
+    expect(stm32h7_crc32_bytes(bytes)).toBe(referenceCrc(bytes));
+  });
+
+  it('should feed trailing bytes as 8-bit writes', () => {
+    for (let length = 1; length <= 11; length++) {
+      const bytes = randomBytes(length);
+      expect(stm32h7_crc32_bytes(bytes)).toBe(referenceCrc(bytes));
+    }
+  });
+
+  it('should give 0xffffffff for no data', () => {
+    expect(stm32h7_crc32_bytes(new Uint8Array(0))).toBe(0xffffffff);
+  });
+});
+
+describe('incremental CRC', () => {
+  it('should give the same result for any chunking', () => {
+    const bytes = randomBytes(103);
+    const expected = stm32h7_crc32_bytes(bytes);
+
+    for (const chunkSize of [1, 2, 3, 4, 5, 7, 64]) {
+      const crc = new Stm32Crc32();
+      for (let i = 0; i < bytes.length; i += chunkSize) {
+        crc.update(bytes.subarray(i, i + chunkSize));
+      }
+      expect(crc.digest()).toBe(expected);
+    }
+  });
+
+  it('should not change state on digest', () => {
+    const bytes = randomBytes(10);
+    const crc = new Stm32Crc32().update(bytes.subarray(0, 6));
+    crc.digest();
+    crc.update(bytes.subarray(6));
+    expect(crc.digest()).toBe(stm32h7_crc32_bytes(bytes));
+  });
+
+  it('should start over on reset', () => {
+    const crc = new Stm32Crc32().update(randomBytes(5));
+    crc.reset().update(new Uint8Array([0, 0, 0, 0]));
+    expect(crc.digest()).toBe(0xc704dd7b);
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { encodeRetransmitRequest } from '../src/device-commands';
+
+describe('device commands', () => {
+  it('should encode a retransmit request as one line of JSON', () => {
+    const line = encodeRetransmitRequest({
+      scanId: 12,
+      missing: ['0_1_5', '2_0_63'],
+      attempt: 1,
+    });
+
+    expect(line.endsWith('\n')).toBe(true);
+    expect(line.indexOf('\n')).toBe(line.length - 1);
+    expect(JSON.parse(line)).toStrictEqual({
+      command: 'retransmit',
+      scanId: 12,
+      packets: [
+        [0, 1, 5],
+        [2, 0, 63],
+      ],
+    });
+  });
+});
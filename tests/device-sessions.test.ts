@@ -0,0 +1,150 @@
+import { describe, it, expect, vi } from 'vitest';
+
+import { DeviceSessions } from '../src/device-sessions';
+import { UltrasonicDataParser } from '../src/parser';
+import type { CompleteScanData, ScanConfig } from '../src/parser';
+import type { Transport } from '../src/transport';
+import type { RongbukDevice } from '../src/types/devices';
+import { encodeScan } from '../src/encoder';
+
+// a transport driven by the test
+class FakeTransport implements Transport {
+  public description = 'fake';
+  public onConnect?: () => void;
+  public onData?: (data: Uint8Array) => void;
+  public onClose?: () => void;
+  public onError?: (error: Error) => void;
+
+  public connect = vi.fn();
+  public close = vi.fn(() => this.onClose?.());
+  public pause = vi.fn();
+  public resume = vi.fn();
+
+  public write(): Promise<void> {
+    return Promise.resolve();
+  }
+}
+
+const network: RongbukDevice = {
+  connectionState: 'DISCONNECTED',
+  name: 'rongbuk-6767b0',
+  location: ['192.168.3.119'],
+};
+
+const serial: RongbukDevice = {
+  connectionState: 'DISCONNECTED',
+  name: 'USB Serial Port (COM14)',
+  location: 'COM14',
+};
+
+const config: ScanConfig = {
+  name: 'sessions',
+  captureStartUs: 40,
+  captureEndUs: 80,
+  angles: [{ label: '0 degrees', degree: 0, numSteps: 2, masks: [1, 2] }],
+  numAngles: 1,
+  totalSteps: 2,
+  rxApodization: [1, 1],
+  numChannels: 2,
+  activeChannels: [0, 1],
+  sampleFormat: 'packed10',
+  adcBits: 10,
+  extra: {},
+  raw: {},
+};
+
+const setup = () => {
+  const transports: Record<string, FakeTransport> = {};
+  // scans by the device whose parser finished them
+  const scans: Record<string, CompleteScanData[]> = {};
+  // parsers made for each device, disposed or not
+  const parsers: Record<string, { dispose: () => void }[]> = {};
+  const sessions = new DeviceSessions(
+    device => {
+      const parser = Object.assign(
+        new UltrasonicDataParser({ scanTimeoutMs: 0 }),
+        { dispose: vi.fn() }
+      );
+      scans[device.name] = [];
+      parser.onScanComplete = data => scans[device.name].push(data);
+      parsers[device.name] = [...(parsers[device.name] ?? []), parser];
+      return parser;
+    },
+    {
+      createTransport: device => {
+        transports[device.name] = new FakeTransport();
+        return transports[device.name];
+      },
+    }
+  );
+  const states: string[] = [];
+  sessions.onStateChange = device =>
+    states.push(`${device.name} ${device.connectionState}`);
+  return { sessions, transports, scans, states, parsers };
+};
+
+describe('device sessions', () => {
+  it('should connect and disconnect devices independently', () => {
+    const { sessions, transports, states } = setup();
+
+    expect(sessions.connect(network)).toBe(true);
+    expect(sessions.connect(serial)).toBe(true);
+    expect(sessions.connect(network)).toBe(false);
+    transports[network.name].onConnect?.();
+    transports[serial.name].onConnect?.();
+    expect(sessions.connected.map(x => x.name)).toEqual([
+      network.name,
+      serial.name,
+    ]);
+
+    sessions.disconnect(network);
+    expect(sessions.state(network.name)).toBe('DISCONNECTED');
+    expect(sessions.state(serial.name)).toBe('CONNECTED');
+    expect(states).toEqual([
+      `${network.name} CONNECTING`,
+      `${serial.name} CONNECTING`,
+      `${network.name} CONNECTED`,
+      `${serial.name} CONNECTED`,
+      `${network.name} DISCONNECTING`,
+      `${network.name} DISCONNECTED`,
+    ]);
+  });
+
+  it('should dispose the parser of a disconnected device', () => {
+    const { sessions, transports, parsers } = setup();
+    sessions.connect(network);
+    transports[network.name].onConnect?.();
+    expect(parsers[network.name][0].dispose).not.toHaveBeenCalled();
+
+    sessions.disconnect(network);
+    expect(parsers[network.name][0].dispose).toHaveBeenCalledTimes(1);
+    expect(sessions.get(network.name)).toBeUndefined();
+
+    sessions.connect(network);
+    expect(parsers[network.name]).toHaveLength(2);
+  });
+
+  it('should parse the data of every device on its own', () => {
+    const { sessions, transports, scans } = setup();
+    sessions.connect(network);
+    sessions.connect(serial);
+    transports[network.name].onConnect?.();
+    transports[serial.name].onConnect?.();
+
+    // the same scan id from both, interleaved
+    const fromNetwork = encodeScan(1, config, () => new Int16Array(8).fill(1));
+    const fromSerial = encodeScan(1, config, () => new Int16Array(8).fill(2));
+    fromNetwork.forEach((packet, i) => {
+      transports[network.name].onData?.(packet);
+      transports[serial.name].onData?.(fromSerial[i]);
+    });
+
+    expect(scans[network.name]).toHaveLength(1);
+    expect(scans[serial.name]).toHaveLength(1);
+    const firstSample = (scan: CompleteScanData) =>
+      scan.angles[0].steps[0].channels[0].samples[0];
+    expect(firstSample(scans[network.name][0])).toBe(1);
+    expect(firstSample(scans[serial.name][0])).toBe(2);
+    expect(scans[network.name][0].partial).toBe(false);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  encodeDataPacket,
+  encodeMetadataJson,
+  encodeMetadataPacket,
+  encodePacket,
+  encodeScan,
+  pack10BitSamples,
+  packSamples,
+} from '../src/encoder';
+import { UltrasonicDataParser, stm32h7_crc32_bytes } from '../src/parser';
+import type { CompleteScanData, ScanConfig } from '../src/parser';
+import {
+  getSampleDecoder,
+  unpack10BitSamples,
+  SAMPLE_FORMAT_PACKED_10BIT,
+  SAMPLE_FORMAT_PACKED_12BIT,
+  SAMPLE_FORMAT_INT16_LE,
+  SAMPLE_FORMAT_UINT8,
+} from '../src/sample-formats';
+
+const config: ScanConfig = {
+  name: 'roundtrip',
+  captureStartUs: 40,
+  captureEndUs: 80,
+  angles: [
+    { label: '0 degrees', degree: 0, numSteps: 2, masks: [3, 6] },
+    { label: '1 degree', degree: 1, numSteps: 1, masks: [3] },
+  ],
+  numAngles: 2,
+  totalSteps: 3,
+  rxApodization: [1, 1, 1],
+  numChannels: 3,
+  activeChannels: [0, 1, 2],
+  sampleFormat: 'packed10',
+  adcBits: 10,
+  extra: {},
+  raw: {},
+};
+
+const ramp = (length: number, min: number, max: number): Int16Array =>
+  Int16Array.from({ length }, (_, i) =>
+    Math.round(min + ((max - min) * i) / (length - 1))
+  );
+
+describe('encoder', () => {
+  it('should frame a payload with preamble, header and crc', () => {
+    const payload = new Uint8Array([1, 2, 3, 4, 5]);
+    const bytes = encodePacket(0x05, 0x123456, payload);
+    const view = new DataView(bytes.buffer);
+
+    expect(bytes.length).toBe(4 + 8 + 5 + 4);
+    expect(view.getUint32(0, true)).toBe(0xa5a5a5a5);
+    expect(view.getUint32(4, true)).toBe(0x12345605);
+    expect(view.getUint32(8, true)).toBe(5);
+    expect(Array.from(bytes.subarray(12, 17))).toEqual([1, 2, 3, 4, 5]);
+    expect(view.getUint32(17, true)).toBe(
+      stm32h7_crc32_bytes(bytes.subarray(4, 17))
+    );
+  });
+
+  it('should pack 10-bit samples as the inverse of unpacking', () => {
+    const samples = ramp(16, -512, 511);
+    const bytes = pack10BitSamples(samples);
+    expect(bytes.length).toBe(20);
+    expect(unpack10BitSamples(bytes)).toEqual(samples);
+
+    // partial group padded, out of range values clamped
+    const padded = unpack10BitSamples(pack10BitSamples([1000, -1000, 7]));
+    expect(Array.from(padded)).toEqual([511, -512, 7, 0, 0, 0, 0, 0]);
+  });
+
+  it.each([
+    [SAMPLE_FORMAT_PACKED_10BIT, -512, 511],
+    [SAMPLE_FORMAT_PACKED_12BIT, -2048, 2047],
+    [SAMPLE_FORMAT_INT16_LE, -32768, 32767],
+    [SAMPLE_FORMAT_UINT8, -128, 127],
+  ])('should round trip sample format %i', (format, min, max) => {
+    const samples = ramp(24, min, max);
+    const decoder = getSampleDecoder(format);
+    expect(decoder?.decode(packSamples(format, samples))).toEqual(samples);
+  });
+
+  it('should reject unknown sample formats', () => {
+    expect(() => packSamples(0x7f, [0])).toThrow();
+  });
+
+  it('should encode metadata the parser reads back', () => {
+    const parser = new UltrasonicDataParser({ scanTimeoutMs: 0 });
+    const onConfig = vi.fn();
+    parser.onConfig = onConfig;
+
+    const full: ScanConfig = {
+      ...config,
+      pattern: [
+        [5, 2],
+        [5, 1],
+      ],
+      repeat: 2,
+      tail: 5,
+      extra: { firmware: '2.1' },
+    };
+    const bytes = encodeMetadataPacket(9, full);
+    expect(new DataView(bytes.buffer).getUint32(8, true) % 4).toBe(0);
+    parser.processData(bytes);
+
+    const { raw, ...received } = onConfig.mock.calls[0][0];
+    expect(received).toEqual({ ...full, raw: undefined });
+    expect(raw).toEqual(JSON.parse(encodeMetadataJson(full)));
+  });
+
+  it('should round trip a whole scan through the parser', () => {
+    const parser = new UltrasonicDataParser({ scanTimeoutMs: 0 });
+    let scan: CompleteScanData | undefined;
+    parser.onScanComplete = data => (scan = data);
+
+    const samplesFor = (a: number, s: number, c: number) =>
+      ramp(80, -100 * (a + 1), 50 * (s + c));
+    const packets = encodeScan(3, config, samplesFor, SAMPLE_FORMAT_INT16_LE);
+    expect(packets.length).toBe(1 + 3 * 3);
+    for (const packet of packets) parser.processData(packet);
+
+    expect(scan?.partial).toBe(false);
+    expect(scan?.config.sampleFormat).toBe('int16le');
+    expect(scan?.angles[1].steps[0].channels[2].samples).toEqual(
+      samplesFor(1, 0, 2)
+    );
+  });
+
+  it('should encode a data packet header', () => {
+    const bytes = encodeDataPacket({
+      scanId: 1,
+      angleIndex: 2,
+      stepIndex: 3,
+      channelIndex: 4,
+      sampleFormat: SAMPLE_FORMAT_UINT8,
+      samples: [0, 1],
+    });
+    expect(Array.from(bytes.subarray(12, 18))).toEqual([2, 3, 4, 3, 128, 129]);
+  });
+});
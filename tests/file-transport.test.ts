@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import {
+  CaptureReplayTransport,
+  FileReplayTransport,
+} from '../src/file-transport';
+import { encodeCaptureChunk, encodeCaptureHeader } from '../src/capture';
+import { UltrasonicDataParser } from '../src/parser';
+import type { ScanConfig } from '../src/parser';
+import { encodeScan } from '../src/encoder';
+import type { Transport } from '../src/transport';
+
+describe('file replay transport', () => {
+  let dir: string;
+  let file: string;
+
+  const config: ScanConfig = {
+    name: 'replay',
+    captureStartUs: 40,
+    captureEndUs: 80,
+    angles: [{ label: '0 degrees', degree: 0, numSteps: 3, masks: [1, 2, 4] }],
+    numAngles: 1,
+    totalSteps: 3,
+    rxApodization: [1, 1, 1, 1],
+    numChannels: 4,
+    activeChannels: [0, 1, 2, 3],
+    sampleFormat: 'packed10',
+    adcBits: 10,
+    extra: {},
+    raw: {},
+  };
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rongbuk-'));
+    file = path.join(dir, 'capture.bin');
+    const packets = encodeScan(1, config, () => new Int16Array(64));
+    fs.writeFileSync(file, Buffer.concat(packets));
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should replay a file through the parser in chunks', async () => {
+    const transport: Transport = new FileReplayTransport(file, 100);
+    const parser = new UltrasonicDataParser({ scanTimeoutMs: 0 });
+    const scans: number[] = [];
+    parser.onScanComplete = scan => scans.push(scan.scanId);
+    let chunks = 0;
+    let write: Promise<void> | undefined;
+    transport.onData = data => {
+      chunks++;
+      parser.processData(data);
+    };
+
+    await new Promise<void>(resolve => {
+      transport.onClose = resolve;
+      transport.onConnect = () => {
+        write = transport.write('{}\n');
+      };
+      transport.connect();
+    });
+
+    // commands are accepted and dropped
+    await expect(write).resolves.toBeUndefined();
+    expect(chunks).toBe(Math.ceil(fs.statSync(file).size / 100));
+    expect(scans).toEqual([1]);
+  });
+
+  it('should report a missing file as an error only', async () => {
+    const transport = new FileReplayTransport(path.join(dir, 'missing.bin'));
+    let closed = false;
+    transport.onClose = () => (closed = true);
+
+    const error = await new Promise<Error>(resolve => {
+      transport.onError = resolve;
+      transport.connect();
+    });
+
+    expect(error.message).toMatch('ENOENT');
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(closed).toBe(false);
+  });
+});
+
+describe('capture replay transport', () => {
+  let dir: string;
+  let file: string;
+  // receive times of the recorded chunks
+  const times = [1000, 1050, 1250];
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rongbuk-'));
+    file = path.join(dir, 'capture.rbcap');
+    fs.writeFileSync(
+      file,
+      Buffer.concat([
+        encodeCaptureHeader(),
+        ...times.map((time, i) =>
+          encodeCaptureChunk(new Uint8Array([i]), time)
+        ),
+      ])
+    );
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  // resolves with [data, receivedAt, replayed at] of every chunk, at close
+  const replay = (transport: CaptureReplayTransport) =>
+    new Promise<number[][]>((resolve, reject) => {
+      const chunks: number[][] = [];
+      transport.onData = (data, receivedAt) =>
+        chunks.push([data[0], receivedAt, Date.now()]);
+      transport.onClose = () => resolve(chunks);
+      transport.onError = reject;
+      transport.connect();
+    });
+
+  it('should replay chunks with their recorded times at original speed', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'setImmediate', 'Date'] });
+    try {
+      const transport = new CaptureReplayTransport(file);
+      const replayed = replay(transport);
+      await vi.waitFor(() => {
+        vi.advanceTimersToNextTimer();
+        expect(transport.ended).toBe(true);
+      });
+      const chunks = await replayed;
+
+      expect(chunks.map(([data, receivedAt]) => [data, receivedAt])).toEqual([
+        [0, 1000],
+        [1, 1050],
+        [2, 1250],
+      ]);
+      const start = chunks[0][2];
+      expect(chunks.map(chunk => chunk[2] - start)).toEqual([0, 50, 250]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should replay without waiting at max speed and hold while paused', async () => {
+    const transport = new CaptureReplayTransport(file, 'max');
+    const replayed = replay(transport);
+    transport.onConnect = () => transport.pause();
+
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(transport.ended).toBe(false);
+    transport.resume();
+    const chunks = await replayed;
+
+    expect(chunks.map(([data]) => data)).toEqual([0, 1, 2]);
+    expect(chunks[2][2] - chunks[0][2]).toBeLessThan(50);
+    expect(transport.ended).toBe(true);
+  });
+});
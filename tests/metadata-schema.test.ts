@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { validateMetadata } from '../src/metadata-schema';
+
+const valid = {
+  name: 'scan',
+  captureStartUs: 40,
+  captureEndUs: 80,
+  angles: [
+    { degree: -5, steps: [1, 2] },
+    { degree: 5, steps: [0xffffffff] },
+  ],
+  rxApodization: [1, 0, 1],
+  sampleFormat: 1,
+};
+
+describe('metadata schema', () => {
+  it('should accept valid metadata', () => {
+    const { metadata, errors } = validateMetadata(valid);
+    expect(errors).toEqual([]);
+    expect(metadata).toEqual({
+      ...valid,
+      numChannels: undefined,
+      pattern: undefined,
+      repeat: undefined,
+      tail: undefined,
+      extra: {},
+    });
+  });
+
+  it('should keep unknown fields', () => {
+    const { metadata } = validateMetadata({
+      ...valid,
+      firmware: { version: '2.1' },
+    });
+    expect(metadata?.extra).toEqual({ firmware: { version: '2.1' } });
+  });
+
+  it('should check the tx pattern', () => {
+    const pattern = [
+      [5, 2],
+      [5, 1],
+    ];
+    const { metadata } = validateMetadata({
+      ...valid,
+      pattern,
+      repeat: 2,
+      tail: 5,
+    });
+    expect(metadata).toMatchObject({ pattern, repeat: 2, tail: 5, extra: {} });
+
+    const { errors } = validateMetadata({
+      ...valid,
+      pattern: [[0, 4], [1], 'x'],
+      repeat: 32,
+      tail: -1,
+    });
+    expect(errors).toEqual([
+      'pattern[0][0]: expected an integer from 1 to 31, got 0',
+      'pattern[0][1]: expected an integer from 0 to 3, got 4',
+      'pattern[1]: expected a [count, level] pair, got [1]',
+      'pattern[2]: expected a [count, level] pair, got "x"',
+      'repeat: expected an integer from 0 to 31, got 32',
+      'tail: expected an integer from 0 to 31, got -1',
+    ]);
+  });
+
+  it('should report every invalid field with its path', () => {
+    const { metadata, errors } = validateMetadata({
+      name: 'x'.repeat(32),
+      captureStartUs: 41,
+      angles: [
+        { degree: 60, steps: [1] },
+        { degree: 0, steps: [] },
+        { degree: 0, steps: [-1] },
+        'north',
+      ],
+      rxApodization: [0, 2],
+      numChannels: 3,
+    });
+
+    expect(metadata).toBeUndefined();
+    expect(errors).toEqual([
+      'name: expected a string of at most 31 characters, got "' +
+        'x'.repeat(32) +
+        '"',
+      'captureStartUs: expected an even integer from 20 to 198, got 41',
+      'captureEndUs: expected an even integer from 22 to 200, got nothing',
+      'angles[0].degree: expected an integer from -45 to 45, got 60',
+      'angles[1].steps: expected an array of 1 to 32 elements, got []',
+      'angles[2].degree: expected a degree not used before, got 0',
+      'angles[2].steps[0]: expected an integer from 0 to 4294967295, got -1',
+      'angles[3]: expected an object, got "north"',
+      'rxApodization[1]: expected 0 or 1, got 2',
+      'rxApodization: expected at least one active channel, got [0,2]',
+      'numChannels: expected the length of rxApodization (2), got 3',
+    ]);
+  });
+
+  it('should reject documents that are not objects', () => {
+    expect(validateMetadata([]).errors).toEqual([
+      'metadata: expected an object, got []',
+    ]);
+    expect(validateMetadata({ ...valid, angles: undefined }).errors).toEqual([
+      'angles: expected an array of 1 to 91 elements, got nothing',
+    ]);
+  });
+
+  it('should check the capture window order', () => {
+    const { errors } = validateMetadata({
+      ...valid,
+      captureStartUs: 80,
+      captureEndUs: 80,
+    });
+    expect(errors).toEqual(['captureEndUs: expected more than 80, got 80']);
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { MessageChannel, Worker } from 'worker_threads';
+import type { MessagePort } from 'worker_threads';
+import { attachParserToPort, ParserWorkerClient } from '../src/parser-port';
+import { encodeScan } from '../src/encoder';
+import type {
+  CompleteScanData,
+  ScanConfig,
+  UltrasonicDataParser,
+} from '../src/parser';
+
+const config: ScanConfig = {
+  name: 'worker',
+  captureStartUs: 40,
+  captureEndUs: 80,
+  angles: [{ label: '0 degrees', degree: 0, numSteps: 3, masks: [3, 6, 9] }],
+  numAngles: 1,
+  totalSteps: 3,
+  rxApodization: [1, 1, 1, 1],
+  numChannels: 4,
+  activeChannels: [0, 1, 2, 3],
+  sampleFormat: 'packed10',
+  adcBits: 10,
+  extra: {},
+  raw: {},
+};
+
+const samplesFor = (a: number, s: number, c: number) =>
+  new Int16Array(64).fill(s * 10 + c);
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const stream = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    stream.set(part, offset);
+    offset += part.length;
+  }
+  return stream;
+};
+
+describe('parser port', () => {
+  let ports: MessagePort[] = [];
+  // the parser behind the port
+  let parser: UltrasonicDataParser;
+
+  const connect = (highWaterMark?: number) => {
+    const { port1, port2 } = new MessageChannel();
+    ports = [port1, port2];
+    parser = attachParserToPort(port1, {
+      scanTimeoutMs: 0,
+      statsIntervalMs: 0,
+    });
+    return new ParserWorkerClient(port2, highWaterMark);
+  };
+
+  afterEach(() => {
+    ports.forEach(port => port.close());
+  });
+
+  it('should forward scans parsed behind the port', async () => {
+    const client = connect();
+    const configs: ScanConfig[] = [];
+    client.onConfig = cfg => configs.push(cfg);
+    const scan = new Promise<CompleteScanData>(resolve => {
+      client.onScanComplete = resolve;
+    });
+
+    const stream = concat(encodeScan(4, config, samplesFor));
+    // uneven chunks, the caller keeps ownership of its buffer
+    for (let offset = 0; offset < stream.length; offset += 333) {
+      client.processData(stream.subarray(offset, offset + 333));
+    }
+    expect(stream.byteLength).toBeGreaterThan(0);
+
+    const data = await scan;
+    expect(configs).toHaveLength(1);
+    expect(data.scanId).toBe(4);
+    expect(data.partial).toBe(false);
+    expect(data.angles[0].steps[2].channels[3].samples).toEqual(
+      samplesFor(0, 2, 3)
+    );
+  });
+
+  it('should forward only events with a callback', async () => {
+    const client = connect();
+    const channels: number[] = [];
+    const times = new Set<number>();
+    client.onDataPacketReceived = packet => {
+      channels.push(packet.channelIndex);
+      times.add(packet.receivedAt);
+    };
+
+    const events: string[] = [];
+    const processed = new Promise<void>(resolve => {
+      ports[1].on('message', message => {
+        if (message.type === 'event') events.push(message.event);
+        if (message.type === 'processed') resolve();
+      });
+    });
+
+    // receive time is taken by the client
+    client.processData(concat(encodeScan(5, config, samplesFor)), 1234);
+    await processed;
+
+    expect(channels).toEqual([0, 1, 2, 3, 0, 1, 2, 3, 0, 1, 2, 3]);
+    expect([...times]).toEqual([1234]);
+    expect(new Set(events)).toEqual(new Set(['onDataPacketReceived']));
+    expect(client.pending).toBe(0);
+    // the parser doesn't do the work of other events
+    expect(parser.onDataPacketReceived).toBeDefined();
+    expect(parser.onRetransmitRequest).toBeUndefined();
+    expect(parser.onScanComplete).toBeUndefined();
+  });
+
+  it('should apply backpressure until the worker catches up', async () => {
+    const client = connect(1000);
+    let drained = 0;
+    const drain = new Promise<void>(resolve => {
+      client.onDrain = () => {
+        drained++;
+        resolve();
+      };
+    });
+
+    const stream = concat(encodeScan(6, config, samplesFor));
+    expect(client.processData(stream.subarray(0, 500))).toBe(true);
+    expect(client.processData(stream.subarray(500))).toBe(false);
+    expect(client.pending).toBe(stream.length);
+
+    await drain;
+    expect(drained).toBe(1);
+    expect(client.pending).toBe(0);
+  });
+
+  it('should release a paused caller when the worker crashes', async () => {
+    // a worker that never parses anything
+    const worker = new Worker(
+      "setTimeout(() => { throw new Error('crashed') }, 50)",
+      { eval: true }
+    );
+    const client = new ParserWorkerClient(worker, 100);
+    const errors: string[] = [];
+    client.onParseError = error => errors.push(error);
+    const drained = vi.fn();
+    client.onDrain = drained;
+    const failed = new Promise<Error>(resolve => {
+      client.onFailed = resolve;
+    });
+
+    expect(client.processData(new Uint8Array(200))).toBe(false);
+
+    expect((await failed).message).toBe('crashed');
+    expect(drained).toHaveBeenCalledTimes(1);
+    expect(client.pending).toBe(0);
+    expect(errors).toEqual(['parser worker failed, crashed']);
+  });
+
+  it('should end the worker on dispose without reporting a failure', async () => {
+    const worker = new Worker('setInterval(() => {}, 1000)', { eval: true });
+    const client = new ParserWorkerClient(worker);
+    const failed = vi.fn();
+    client.onFailed = failed;
+    const exited = new Promise(resolve => worker.on('exit', resolve));
+
+    client.dispose();
+
+    await exited;
+    expect(failed).not.toHaveBeenCalled();
+  });
+});
@@ -1,6 +1,18 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 // Import the parser and ECharts
-import { UltrasonicDataParser, stm32h7_crc32 } from '../src/parser';
+import {
+  UltrasonicDataParser,
+  PACKET_TYPE_LOG,
+  stm32h7_crc32,
+  stm32h7_crc32_bytes,
+} from '../src/parser';
+import type { ScanConfig, StepData } from '../src/parser';
+import {
+  extract8SamplesFrom10Bytes,
+  unpack10BitSamples,
+} from '../src/sample-formats';
+import { encodePacket, encodeScan } from '../src/encoder';
+import { Stm32Crc32 } from '../src/crc32';
 
 // // Example function to test
 // function add(a: number, b: number): number {
@@ -62,16 +74,976 @@ describe('CRC test', () => {
 
 describe('parser test', () => {
   it('should extract 8x -511', () => {
-    const parser = new UltrasonicDataParser();
     const bytes = new Uint8Array([0x01, 0x04, 0x10, 0x40, 0x00, 0x01, 0x04, 0x10, 0x40, 0x00]);
-    const samples = parser.extract8SamplesFrom10Bytes(bytes);
-    expect(samples).toStrictEqual([-511,-511,-511,-511,-511,-511,-511,-511]);
+    const samples = extract8SamplesFrom10Bytes(bytes);
+    expect(samples).toStrictEqual(new Int16Array([-511,-511,-511,-511,-511,-511,-511,-511]));
   })
 
   it('should extract 8x -510', () => {
-    const parser = new UltrasonicDataParser()
     const bytes = new Uint8Array([0x02, 0x08, 0x20, 0x80, 0x00, 0x02, 0x08, 0x20, 0x80, 0x00]);
-    const samples = parser.extract8SamplesFrom10Bytes(bytes);
-    expect(samples).toStrictEqual([-510,-510,-510,-510,-510,-510,-510,-510]);
+    const samples = extract8SamplesFrom10Bytes(bytes);
+    expect(samples).toStrictEqual(new Int16Array([-510,-510,-510,-510,-510,-510,-510,-510]));
   })
-})
\ No newline at end of file
+
+  it('should unpack whole groups of a chunk into Int16Array', () => {
+    const bytes = new Uint8Array([
+      0x03, 0x0c, 0x30, 0xc0, 0x00, 0x03, 0x0c, 0x30, 0xc0, 0x00, 0x13, 0x4c,
+      0x30, 0xc1, 0x04, 0x13, 0x4c, 0x30, 0xc1, 0x04, 0xff, 0xff, 0xff,
+    ]);
+    const samples = unpack10BitSamples(bytes);
+    expect(samples).toBeInstanceOf(Int16Array);
+    expect(Array.from(samples)).toStrictEqual([
+      ...new Array(8).fill(3 - 512),
+      ...new Array(8).fill(0x13 - 512),
+    ]);
+  });
+})
+
+// builds a framed packet: preamble, header, payload (padded to 4 bytes), crc
+const buildPacket = (
+  type: number,
+  scanId: number,
+  payload: Uint8Array
+): Uint8Array => {
+  const payloadSize = Math.ceil(payload.length / 4) * 4;
+  const bytes = new Uint8Array(4 + 8 + payloadSize + 4);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, 0xa5a5a5a5, true);
+  view.setUint32(4, ((scanId << 8) | type) >>> 0, true);
+  view.setUint32(8, payloadSize, true);
+  bytes.set(payload, 12);
+  const crc = stm32h7_crc32(
+    new Uint32Array(bytes.buffer.slice(4, 12 + payloadSize))
+  );
+  view.setUint32(12 + payloadSize, crc, true);
+  return bytes;
+};
+
+const buildMetadataPacket = (scanId: number, jconf: object): Uint8Array => {
+  const json = JSON.stringify(jconf);
+  const padded = json.padEnd(Math.ceil(json.length / 4) * 4, ' ');
+  return buildPacket(0x04, scanId, new TextEncoder().encode(padded));
+};
+
+const buildDataPacket = (
+  scanId: number,
+  angleIndex: number,
+  stepIndex: number,
+  channelIndex: number,
+  sampleFormat = 0,
+  chunk: Uint8Array = new Uint8Array(20)
+): Uint8Array => {
+  // 4 bytes of indices and format, then the chunk of samples which
+  // defaults to 2 groups of 8 packed 10-bit samples
+  const payload = new Uint8Array(4 + chunk.length);
+  payload.set([angleIndex, stepIndex, channelIndex, sampleFormat]);
+  payload.set(chunk, 4);
+  return buildPacket(0x02, scanId, payload);
+};
+
+// one angle, two steps, two rx channels
+const smallScan = {
+  name: 'small',
+  captureStartUs: 40,
+  captureEndUs: 80,
+  angles: [{ degree: 0, steps: [0, 0] }],
+  rxApodization: [1, 1],
+};
+
+describe('scan timeout', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should deliver a complete scan without waiting for timeout', () => {
+    const parser = new UltrasonicDataParser({ scanTimeoutMs: 1000 });
+    const onScanComplete = vi.fn();
+    parser.onScanComplete = onScanComplete;
+
+    parser.processData(buildMetadataPacket(1, smallScan));
+    parser.processData(buildDataPacket(1, 0, 0, 0));
+    parser.processData(buildDataPacket(1, 0, 0, 1));
+    parser.processData(buildDataPacket(1, 0, 1, 0));
+    parser.processData(buildDataPacket(1, 0, 1, 1));
+
+    expect(onScanComplete).toHaveBeenCalledTimes(1);
+    const data = onScanComplete.mock.calls[0][0];
+    expect(data.partial).toBe(false);
+    expect(data.missing).toStrictEqual([]);
+
+    vi.advanceTimersByTime(5000);
+    expect(onScanComplete).toHaveBeenCalledTimes(1);
+  });
+
+  it('should deliver a partial scan listing missing packets on timeout', () => {
+    const parser = new UltrasonicDataParser({ scanTimeoutMs: 1000 });
+    const onScanComplete = vi.fn();
+    parser.onScanComplete = onScanComplete;
+
+    parser.processData(buildMetadataPacket(1, smallScan));
+    parser.processData(buildDataPacket(1, 0, 0, 0));
+    parser.processData(buildDataPacket(1, 0, 1, 1));
+
+    vi.advanceTimersByTime(999);
+    expect(onScanComplete).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(onScanComplete).toHaveBeenCalledTimes(1);
+    const data = onScanComplete.mock.calls[0][0];
+    expect(data.partial).toBe(true);
+    expect(data.reason).toBe('timeout');
+    expect(data.missing).toStrictEqual(['0_0_1', '0_1_0']);
+    expect(
+      data.angles[0].steps.map((s: StepData) => s.channels.length)
+    ).toStrictEqual([1, 1]);
+  });
+
+  it('should restart the timeout on every data packet', () => {
+    const parser = new UltrasonicDataParser({ scanTimeoutMs: 1000 });
+    const onScanComplete = vi.fn();
+    parser.onScanComplete = onScanComplete;
+
+    parser.processData(buildMetadataPacket(1, smallScan));
+    vi.advanceTimersByTime(800);
+    parser.processData(buildDataPacket(1, 0, 0, 0));
+    vi.advanceTimersByTime(800);
+    expect(onScanComplete).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(200);
+    expect(onScanComplete).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not time out when scanTimeoutMs is 0', () => {
+    const parser = new UltrasonicDataParser({ scanTimeoutMs: 0 });
+    const onScanComplete = vi.fn();
+    parser.onScanComplete = onScanComplete;
+
+    parser.processData(buildMetadataPacket(1, smallScan));
+    parser.processData(buildDataPacket(1, 0, 0, 0));
+    vi.advanceTimersByTime(60000);
+    expect(onScanComplete).not.toHaveBeenCalled();
+  });
+});
+
+describe('superseded scan', () => {
+  it('should flush the in-flight scan when new metadata arrives', () => {
+    const parser = new UltrasonicDataParser({ scanTimeoutMs: 0 });
+    const onScanComplete = vi.fn();
+    const onScanSuperseded = vi.fn();
+    const onConfig = vi.fn();
+    parser.onScanComplete = onScanComplete;
+    parser.onScanSuperseded = onScanSuperseded;
+    parser.onConfig = onConfig;
+
+    parser.processData(buildMetadataPacket(1, smallScan));
+    parser.processData(buildDataPacket(1, 0, 0, 0));
+    parser.processData(buildDataPacket(1, 0, 1, 0));
+    parser.processData(buildMetadataPacket(2, smallScan));
+
+    expect(onScanComplete).not.toHaveBeenCalled();
+    expect(onScanSuperseded).toHaveBeenCalledTimes(1);
+    const data = onScanSuperseded.mock.calls[0][0];
+    expect(data.scanId).toBe(1);
+    expect(data.reason).toBe('superseded');
+    expect(data.partial).toBe(true);
+    expect(data.missing).toStrictEqual(['0_0_1', '0_1_1']);
+    expect(onConfig).toHaveBeenCalledTimes(2);
+
+    // the new scan collects its own packets
+    parser.processData(buildDataPacket(2, 0, 0, 0));
+    parser.processData(buildDataPacket(2, 0, 0, 1));
+    parser.processData(buildDataPacket(2, 0, 1, 0));
+    parser.processData(buildDataPacket(2, 0, 1, 1));
+    expect(onScanComplete).toHaveBeenCalledTimes(1);
+    expect(onScanComplete.mock.calls[0][0].scanId).toBe(2);
+    expect(onScanComplete.mock.calls[0][0].reason).toBe('complete');
+  });
+
+  it('should not flush a scan that already completed', () => {
+    const parser = new UltrasonicDataParser({ scanTimeoutMs: 0 });
+    const onScanSuperseded = vi.fn();
+    parser.onScanSuperseded = onScanSuperseded;
+
+    parser.processData(buildMetadataPacket(1, smallScan));
+    parser.processData(buildDataPacket(1, 0, 0, 0));
+    parser.processData(buildDataPacket(1, 0, 0, 1));
+    parser.processData(buildDataPacket(1, 0, 1, 0));
+    parser.processData(buildDataPacket(1, 0, 1, 1));
+    parser.processData(buildMetadataPacket(2, smallScan));
+
+    expect(onScanSuperseded).not.toHaveBeenCalled();
+  });
+});
+
+describe('packet framing', () => {
+  const concat = (parts: Uint8Array[]): Uint8Array => {
+    const bytes = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      bytes.set(part, offset);
+      offset += part.length;
+    }
+    return bytes;
+  };
+
+  const scanStream = (): Uint8Array =>
+    concat([
+      new Uint8Array([0xa5, 0xa5, 0x00, 0x13]),
+      buildMetadataPacket(1, smallScan),
+      new Uint8Array([0xa5, 0xa5, 0xa5]),
+      buildDataPacket(1, 0, 0, 0),
+      buildDataPacket(1, 0, 0, 1),
+      new Uint8Array(17).fill(0xa5),
+      buildDataPacket(1, 0, 1, 0),
+      new Uint8Array([0x01, 0x02, 0x03]),
+      buildDataPacket(1, 0, 1, 1),
+    ]);
+
+  it('should resync on garbage between packets', () => {
+    const parser = new UltrasonicDataParser({ scanTimeoutMs: 0 });
+    const onScanComplete = vi.fn();
+    parser.onScanComplete = onScanComplete;
+
+    parser.processData(scanStream());
+
+    expect(onScanComplete).toHaveBeenCalledTimes(1);
+    expect(onScanComplete.mock.calls[0][0].partial).toBe(false);
+  });
+
+  it('should reassemble packets split into single bytes', () => {
+    const parser = new UltrasonicDataParser({ scanTimeoutMs: 0 });
+    const onScanComplete = vi.fn();
+    parser.onScanComplete = onScanComplete;
+
+    const stream = scanStream();
+    for (let i = 0; i < stream.length; i++) {
+      parser.processData(stream.subarray(i, i + 1));
+    }
+
+    expect(onScanComplete).toHaveBeenCalledTimes(1);
+    expect(onScanComplete.mock.calls[0][0].partial).toBe(false);
+  });
+
+  it('should skip a packet with bad crc', () => {
+    const parser = new UltrasonicDataParser({ scanTimeoutMs: 0 });
+    const onPacketReceived = vi.fn();
+    parser.onPacketReceived = onPacketReceived;
+
+    const corrupted = buildDataPacket(1, 0, 0, 1);
+    corrupted[20] ^= 0xff;
+    parser.processData(
+      concat([
+        buildMetadataPacket(1, smallScan),
+        buildDataPacket(1, 0, 0, 0),
+        corrupted,
+        buildDataPacket(1, 0, 1, 0),
+      ])
+    );
+
+    expect(onPacketReceived.mock.calls.map(call => call[0])).toStrictEqual([
+      1, 2,
+    ]);
+  });
+
+  it('should check preambles inside a large packet once while it arrives', () => {
+    const payload = new Uint8Array(64 * 1024);
+    const view = new DataView(payload.buffer);
+    // a complete false packet with a bad crc
+    view.setUint32(100, 0xa5a5a5a5, true);
+    view.setUint32(108, 8, true);
+    // a false packet claiming more bytes than will arrive
+    view.setUint32(200, 0xa5a5a5a5, true);
+    view.setUint32(208, 512 * 1024, true);
+    const packet = encodePacket(PACKET_TYPE_LOG, 0, payload);
+
+    const parser = new UltrasonicDataParser({ scanTimeoutMs: 0 });
+    const onDeviceLog = vi.fn();
+    parser.onDeviceLog = onDeviceLog;
+    const update = vi.spyOn(Stm32Crc32.prototype, 'update');
+    try {
+      for (let offset = 0; offset < packet.length; offset += 256) {
+        parser.processData(packet.subarray(offset, offset + 256));
+      }
+      // the false packet once, then the real one
+      expect(update).toHaveBeenCalledTimes(2);
+    } finally {
+      update.mockRestore();
+    }
+    expect(onDeviceLog).toHaveBeenCalledTimes(1);
+    expect(parser.getStats().bytesDiscarded).toBe(0);
+  });
+
+  it('should accept a payload that is not a multiple of 4 bytes', () => {
+    const parser = new UltrasonicDataParser({ scanTimeoutMs: 0 });
+    const onConfig = vi.fn();
+    parser.onConfig = onConfig;
+
+    let json = JSON.stringify(smallScan);
+    if (json.length % 4 === 0) json += ' ';
+    const payload = new TextEncoder().encode(json);
+    const bytes = new Uint8Array(4 + 8 + payload.length + 4);
+    const view = new DataView(bytes.buffer);
+    view.setUint32(0, 0xa5a5a5a5, true);
+    view.setUint32(4, (1 << 8) | 0x04, true);
+    view.setUint32(8, payload.length, true);
+    bytes.set(payload, 12);
+    view.setUint32(
+      12 + payload.length,
+      stm32h7_crc32_bytes(bytes.subarray(4, 12 + payload.length)),
+      true
+    );
+
+    parser.processData(bytes);
+    expect(onConfig).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('sample format', () => {
+  it('should decode data packets by their format byte', () => {
+    const parser = new UltrasonicDataParser({ scanTimeoutMs: 0 });
+    const onScanComplete = vi.fn();
+    parser.onScanComplete = onScanComplete;
+
+    const int16 = new Uint8Array(
+      new Int16Array([-1000, 0, 1000, 32767]).buffer
+    );
+    parser.processData(buildMetadataPacket(1, smallScan));
+    parser.processData(buildDataPacket(1, 0, 0, 0, 2, int16));
+    parser.processData(buildDataPacket(1, 0, 0, 1, 2, int16));
+    parser.processData(buildDataPacket(1, 0, 1, 0, 2, int16));
+    parser.processData(buildDataPacket(1, 0, 1, 1, 2, int16));
+
+    const data = onScanComplete.mock.calls[0][0];
+    expect(data.config.sampleFormat).toBe('int16le');
+    expect(data.config.adcBits).toBe(16);
+    const samples = data.angles[0].steps[0].channels[0].samples;
+    expect(Array.from(samples)).toStrictEqual([-1000, 0, 1000, 32767]);
+  });
+
+  it('should take the format from metadata if given', () => {
+    const parser = new UltrasonicDataParser({ scanTimeoutMs: 0 });
+    const onConfig = vi.fn();
+    parser.onConfig = onConfig;
+
+    parser.processData(
+      buildMetadataPacket(1, { ...smallScan, sampleFormat: 1 })
+    );
+    expect(onConfig.mock.calls[0][0].sampleFormat).toBe('packed12');
+    expect(onConfig.mock.calls[0][0].adcBits).toBe(12);
+  });
+
+  it('should report an unknown format and decode it as packed 10-bit', () => {
+    const parser = new UltrasonicDataParser({ scanTimeoutMs: 0 });
+    const onParseError = vi.fn();
+    const onPacketReceived = vi.fn();
+    parser.onParseError = onParseError;
+    parser.onPacketReceived = onPacketReceived;
+
+    parser.processData(buildMetadataPacket(1, smallScan));
+    parser.processData(buildDataPacket(1, 0, 0, 0, 0x7f));
+
+    expect(onParseError).toHaveBeenCalledTimes(1);
+    expect(onParseError.mock.calls[0][0]).toMatch(/0x7f/);
+    expect(onPacketReceived).toHaveBeenCalledWith(1);
+  });
+});
+
+describe('parser statistics', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should count received, discarded and bad packets', () => {
+    const parser = new UltrasonicDataParser({ scanTimeoutMs: 0 });
+    const garbage = new Uint8Array([1, 2, 3, 4, 5]);
+    const corrupted = buildDataPacket(1, 0, 0, 1);
+    corrupted[20] ^= 0xff;
+    const badJson = buildPacket(0x04, 2, new TextEncoder().encode('{,}'));
+
+    parser.processData(garbage);
+    parser.processData(buildDataPacket(1, 0, 0, 0)); // before metadata
+    parser.processData(buildMetadataPacket(1, smallScan));
+    parser.processData(buildDataPacket(1, 0, 0, 0));
+    parser.processData(buildDataPacket(1, 0, 0, 0));
+    parser.processData(buildDataPacket(2, 0, 0, 0)); // another scan
+    parser.processData(corrupted);
+    parser.processData(badJson);
+
+    const stats = parser.getStats();
+    expect(stats.bytesReceived).toBe(
+      garbage.length +
+        buildMetadataPacket(1, smallScan).length +
+        5 * corrupted.length +
+        badJson.length
+    );
+    expect(stats.bytesDiscarded).toBe(garbage.length + corrupted.length);
+    expect(stats.packetsReceived).toBe(6);
+    expect(stats.crcFailures).toBe(1);
+    expect(stats.duplicatePackets).toBe(1);
+    expect(stats.outOfScanPackets).toBe(2);
+    expect(stats.jsonFailures).toBe(1);
+  });
+
+  it('should report stats and link health periodically', () => {
+    const parser = new UltrasonicDataParser({
+      scanTimeoutMs: 0,
+      statsIntervalMs: 1000,
+    });
+    const onStats = vi.fn();
+    const onLinkHealth = vi.fn();
+    parser.onStats = onStats;
+    parser.onLinkHealth = onLinkHealth;
+
+    // nothing is reported before any data
+    vi.advanceTimersByTime(3000);
+    expect(onStats).not.toHaveBeenCalled();
+
+    parser.processData(buildMetadataPacket(1, smallScan));
+    vi.advanceTimersByTime(1000);
+    expect(onStats).toHaveBeenCalledTimes(1);
+    expect(onLinkHealth).toHaveBeenLastCalledWith('HEALTHY', parser.getStats());
+
+    parser.processData(new Uint8Array([0xa5, 0, 0, 0, 0]));
+    vi.advanceTimersByTime(1000);
+    expect(onLinkHealth).toHaveBeenLastCalledWith(
+      'DEGRADED',
+      parser.getStats()
+    );
+
+    vi.advanceTimersByTime(1000);
+    expect(onStats).toHaveBeenCalledTimes(3);
+    expect(onLinkHealth).toHaveBeenCalledTimes(3);
+    expect(onLinkHealth.mock.calls[2][0]).toBe('IDLE');
+  });
+
+  it('should clear stats on reset', () => {
+    const parser = new UltrasonicDataParser({ scanTimeoutMs: 0 });
+    const onStats = vi.fn();
+    parser.onStats = onStats;
+
+    parser.processData(buildMetadataPacket(1, smallScan));
+    parser.reset();
+    expect(parser.getStats().bytesReceived).toBe(0);
+
+    vi.advanceTimersByTime(5000);
+    expect(onStats).not.toHaveBeenCalled();
+  });
+});
+
+describe('packet types', () => {
+  const text = (s: string) => new TextEncoder().encode(s);
+
+  it('should decode status, ack and log packets', () => {
+    const parser = new UltrasonicDataParser({ scanTimeoutMs: 0 });
+    const onDeviceStatus = vi.fn();
+    const onCommandAck = vi.fn();
+    const onDeviceLog = vi.fn();
+    parser.onDeviceStatus = onDeviceStatus;
+    parser.onCommandAck = onCommandAck;
+    parser.onDeviceLog = onDeviceLog;
+
+    parser.processData(buildPacket(0x01, 0, text('{"temperature":41}')));
+    parser.processData(buildPacket(0x03, 0, text('{"requestId":7,"ok":true}')));
+    parser.processData(buildPacket(0x05, 0, text('tx ready\n')));
+
+    expect(onDeviceStatus).toHaveBeenCalledWith({ temperature: 41 });
+    expect(onCommandAck).toHaveBeenCalledWith({ requestId: 7, ok: true });
+    expect(onDeviceLog).toHaveBeenCalledWith('tx ready');
+    expect(parser.getStats().unknownPackets).toBe(0);
+  });
+
+  it('should report valid packets of unknown type', () => {
+    const parser = new UltrasonicDataParser({ scanTimeoutMs: 0 });
+    const onUnknownPacket = vi.fn();
+    const onScanComplete = vi.fn();
+    parser.onUnknownPacket = onUnknownPacket;
+    parser.onScanComplete = onScanComplete;
+
+    parser.processData(buildMetadataPacket(1, smallScan));
+    parser.processData(buildPacket(0x42, 9, new Uint8Array([1, 2, 3, 4])), 42);
+    for (let step = 0; step < 2; step++) {
+      for (let channel = 0; channel < 2; channel++) {
+        parser.processData(buildDataPacket(1, 0, step, channel));
+      }
+    }
+
+    expect(onUnknownPacket).toHaveBeenCalledWith({
+      packetType: 0x42,
+      scanId: 9,
+      payload: new Uint8Array([1, 2, 3, 4]),
+      receivedAt: 42,
+    });
+    expect(onScanComplete).toHaveBeenCalledTimes(1);
+    const stats = parser.getStats();
+    expect(stats.unknownPackets).toBe(1);
+    expect(stats.bytesDiscarded).toBe(0);
+  });
+
+  it('should use registered packet handlers', () => {
+    const parser = new UltrasonicDataParser({ scanTimeoutMs: 0 });
+    const handler = vi.fn();
+    const onDeviceLog = vi.fn();
+    parser.onDeviceLog = onDeviceLog;
+
+    parser.registerPacketHandler(0x05, handler);
+    parser.processData(buildPacket(0x05, 3, text('raw')));
+
+    expect(onDeviceLog).not.toHaveBeenCalled();
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler.mock.calls[0][0].scanId).toBe(3);
+
+    expect(() => parser.registerPacketHandler(0x02, handler)).toThrow();
+    expect(() => parser.registerPacketHandler(0x04, handler)).toThrow();
+  });
+
+  it('should count status packets with bad JSON', () => {
+    const parser = new UltrasonicDataParser({ scanTimeoutMs: 0 });
+    const onParseError = vi.fn();
+    parser.onParseError = onParseError;
+
+    parser.processData(buildPacket(0x01, 0, text('{oops')));
+
+    expect(onParseError).toHaveBeenCalledTimes(1);
+    expect(parser.getStats().jsonFailures).toBe(1);
+  });
+});
+
+describe('packet callbacks', () => {
+  it('should emit every metadata and data packet with header fields', () => {
+    const parser = new UltrasonicDataParser({ scanTimeoutMs: 0 });
+    const onMetadataReceived = vi.fn();
+    const onDataPacketReceived = vi.fn();
+    const onScanComplete = vi.fn();
+    parser.onMetadataReceived = onMetadataReceived;
+    parser.onDataPacketReceived = onDataPacketReceived;
+    parser.onScanComplete = onScanComplete;
+
+    parser.processData(buildMetadataPacket(5, smallScan));
+    parser.processData(buildDataPacket(5, 0, 1, 1, 0x03, new Uint8Array(8)));
+    // test packet and packet of another scan
+    parser.processData(buildDataPacket(0, 0, 0, 0));
+    parser.processData(buildDataPacket(6, 0, 0, 0));
+
+    expect(onMetadataReceived).toHaveBeenCalledTimes(1);
+    const metadata = onMetadataReceived.mock.calls[0][0];
+    expect(metadata.packetType).toBe(0x04);
+    expect(metadata.scanId).toBe(5);
+    expect(metadata.payloadSize % 4).toBe(0);
+    expect(metadata.scanConfig.name).toBe('small');
+
+    expect(onDataPacketReceived).toHaveBeenCalledTimes(3);
+    const packet = onDataPacketReceived.mock.calls[0][0];
+    expect(packet).toMatchObject({
+      packetType: 0x02,
+      scanId: 5,
+      payloadSize: 12,
+      angleIndex: 0,
+      stepIndex: 1,
+      channelIndex: 1,
+      sampleFormat: 0x03,
+    });
+    expect(packet.samples).toEqual(new Int16Array(8).fill(-128));
+    expect(onDataPacketReceived.mock.calls[1][0].scanId).toBe(0);
+
+    // only the packet of scan 6 counts as out of scan
+    expect(parser.getStats().outOfScanPackets).toBe(1);
+    expect(onScanComplete).not.toHaveBeenCalled();
+  });
+
+  it('should pass the offending payload to onParseError', () => {
+    const parser = new UltrasonicDataParser({ scanTimeoutMs: 0 });
+    const onParseError = vi.fn();
+    parser.onParseError = onParseError;
+
+    const json = new TextEncoder().encode('{bad}');
+    parser.processData(buildPacket(0x04, 1, json));
+
+    expect(onParseError).toHaveBeenCalledTimes(1);
+    const data = onParseError.mock.calls[0][1] as Uint8Array;
+    expect(Array.from(data.subarray(0, json.length))).toEqual(Array.from(json));
+  });
+});
+
+describe('retransmit', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const config: ScanConfig = {
+    name: 'retransmit',
+    captureStartUs: 40,
+    captureEndUs: 80,
+    angles: [
+      { label: '0 degrees', degree: 0, numSteps: 2, masks: [3, 6] },
+      { label: '5 degrees', degree: 5, numSteps: 2, masks: [3, 6] },
+    ],
+    numAngles: 2,
+    totalSteps: 4,
+    rxApodization: [1, 1, 1, 1],
+    numChannels: 4,
+    activeChannels: [0, 1, 2, 3],
+    sampleFormat: 'packed10',
+    adcBits: 10,
+    extra: {},
+    raw: {},
+  };
+  const samplesFor = (a: number, s: number, c: number) =>
+    new Int16Array(16).fill(a * 100 + s * 10 + c);
+
+  // metadata first, then data packets keyed by angle_step_channel
+  const synthesizeScan = (scanId: number) => {
+    const [metadata, ...data] = encodeScan(scanId, config, samplesFor);
+    const packets = new Map<string, Uint8Array>();
+    for (const packet of data) {
+      packets.set(`${packet[12]}_${packet[13]}_${packet[14]}`, packet);
+    }
+    return { metadata, packets };
+  };
+
+  const concat = (parts: Uint8Array[]): Uint8Array => {
+    const stream = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      stream.set(part, offset);
+      offset += part.length;
+    }
+    return stream;
+  };
+
+  it('should request missing packets and merge the resent ones', () => {
+    const parser = new UltrasonicDataParser({ scanTimeoutMs: 1000 });
+    const onRetransmitRequest = vi.fn();
+    const onScanComplete = vi.fn();
+    parser.onRetransmitRequest = onRetransmitRequest;
+    parser.onScanComplete = onScanComplete;
+
+    const { metadata, packets } = synthesizeScan(7);
+    const lost = ['0_1_2', '1_0_0', '1_1_3'];
+    const received = [...packets].filter(([key]) => !lost.includes(key));
+    parser.processData(concat([metadata, ...received.map(([, p]) => p)]));
+
+    vi.advanceTimersByTime(1000);
+    expect(onScanComplete).not.toHaveBeenCalled();
+    expect(onRetransmitRequest).toHaveBeenCalledWith({
+      scanId: 7,
+      missing: lost,
+      attempt: 1,
+    });
+
+    parser.processData(concat(lost.map(key => packets.get(key) as Uint8Array)));
+
+    expect(onScanComplete).toHaveBeenCalledTimes(1);
+    const data = onScanComplete.mock.calls[0][0];
+    expect(data.partial).toBe(false);
+    expect(data.reason).toBe('complete');
+    expect(Array.from(data.angles[1].steps[1].channels[3].samples)).toEqual(
+      Array.from(samplesFor(1, 1, 3))
+    );
+    expect(parser.getStats().retransmitRequests).toBe(1);
+  });
+
+  it('should ask again for what is still missing, then give up', () => {
+    const parser = new UltrasonicDataParser({
+      scanTimeoutMs: 1000,
+      maxRetransmitRequests: 2,
+    });
+    const onRetransmitRequest = vi.fn();
+    const onScanComplete = vi.fn();
+    parser.onRetransmitRequest = onRetransmitRequest;
+    parser.onScanComplete = onScanComplete;
+
+    const { metadata, packets } = synthesizeScan(8);
+    packets.delete('0_0_0');
+    packets.delete('1_1_1');
+    parser.processData(concat([metadata, ...packets.values()]));
+
+    vi.advanceTimersByTime(1000);
+    expect(onRetransmitRequest.mock.calls[0][0].missing).toEqual([
+      '0_0_0',
+      '1_1_1',
+    ]);
+
+    // only one of the two is resent
+    parser.processData(synthesizeScan(8).packets.get('0_0_0') as Uint8Array);
+    vi.advanceTimersByTime(1000);
+    expect(onRetransmitRequest).toHaveBeenLastCalledWith({
+      scanId: 8,
+      missing: ['1_1_1'],
+      attempt: 2,
+    });
+
+    vi.advanceTimersByTime(1000);
+    expect(onRetransmitRequest).toHaveBeenCalledTimes(2);
+    expect(onScanComplete).toHaveBeenCalledTimes(1);
+    const data = onScanComplete.mock.calls[0][0];
+    expect(data.reason).toBe('timeout');
+    expect(data.missing).toEqual(['1_1_1']);
+  });
+
+  it('should time out without requests when nobody forwards them', () => {
+    const parser = new UltrasonicDataParser({ scanTimeoutMs: 1000 });
+    const onScanComplete = vi.fn();
+    parser.onScanComplete = onScanComplete;
+
+    const { metadata, packets } = synthesizeScan(9);
+    packets.delete('0_0_0');
+    parser.processData(concat([metadata, ...packets.values()]));
+
+    vi.advanceTimersByTime(1000);
+    expect(onScanComplete).toHaveBeenCalledTimes(1);
+    expect(parser.getStats().retransmitRequests).toBe(0);
+  });
+});
+
+describe('channel layout', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const sparseScan = { ...smallScan, rxApodization: [1, 0, 1, 0] };
+
+  it('should derive channel count and active channels from metadata', () => {
+    const parser = new UltrasonicDataParser({ scanTimeoutMs: 0 });
+    const onConfig = vi.fn();
+    parser.onConfig = onConfig;
+
+    parser.processData(buildMetadataPacket(1, sparseScan));
+    const { rxApodization, ...legacyScan } = smallScan;
+    expect(rxApodization).toHaveLength(2);
+    parser.processData(buildMetadataPacket(2, legacyScan));
+
+    expect(onConfig.mock.calls[0][0].numChannels).toBe(4);
+    expect(onConfig.mock.calls[0][0].activeChannels).toEqual([0, 2]);
+    // metadata without rxApodization receives on every channel
+    expect(onConfig.mock.calls[1][0].numChannels).toBe(64);
+    expect(onConfig.mock.calls[1][0].activeChannels).toHaveLength(64);
+  });
+
+  it('should complete a scan without packets of disabled channels', () => {
+    const parser = new UltrasonicDataParser({ scanTimeoutMs: 1000 });
+    const onScanComplete = vi.fn();
+    parser.onScanComplete = onScanComplete;
+
+    parser.processData(buildMetadataPacket(1, sparseScan));
+    // a disabled channel and a step beyond the scan are ignored
+    parser.processData(buildDataPacket(1, 0, 0, 1));
+    parser.processData(buildDataPacket(1, 0, 2, 0));
+    parser.processData(buildDataPacket(1, 0, 0, 0));
+    parser.processData(buildDataPacket(1, 0, 0, 2));
+    parser.processData(buildDataPacket(1, 0, 1, 0));
+    parser.processData(buildDataPacket(1, 0, 1, 2));
+
+    expect(onScanComplete).toHaveBeenCalledTimes(1);
+    const data = onScanComplete.mock.calls[0][0];
+    expect(data.partial).toBe(false);
+    expect(
+      data.angles[0].steps[1].channels.map((c: { index: number }) => c.index)
+    ).toEqual([0, 2]);
+    expect(parser.getStats().outOfScanPackets).toBe(2);
+  });
+
+  it('should list only active channels as missing', () => {
+    const parser = new UltrasonicDataParser({ scanTimeoutMs: 1000 });
+    const onScanComplete = vi.fn();
+    parser.onScanComplete = onScanComplete;
+
+    parser.processData(buildMetadataPacket(1, sparseScan));
+    parser.processData(buildDataPacket(1, 0, 0, 0));
+    vi.advanceTimersByTime(1000);
+
+    expect(onScanComplete.mock.calls[0][0].missing).toEqual([
+      '0_0_2',
+      '0_1_0',
+      '0_1_2',
+    ]);
+  });
+});
+
+describe('step events', () => {
+  it('should report each step once all its channels arrived', () => {
+    const parser = new UltrasonicDataParser({ scanTimeoutMs: 0 });
+    const events: string[] = [];
+    parser.onStepComplete = (angleIndex, stepIndex, step) => {
+      const channels = step.channels.map(c => c.index).join();
+      events.push(`step ${angleIndex}_${stepIndex} [${channels}]`);
+    };
+    parser.onScanComplete = () => events.push('scan');
+
+    parser.processData(buildMetadataPacket(1, smallScan));
+    parser.processData(buildDataPacket(1, 0, 1, 1));
+    parser.processData(buildDataPacket(1, 0, 0, 1));
+    // a duplicate does not complete a step
+    parser.processData(buildDataPacket(1, 0, 1, 1));
+    expect(events).toEqual([]);
+
+    parser.processData(buildDataPacket(1, 0, 0, 0));
+    expect(events).toEqual(['step 0_0 [0,1]']);
+
+    parser.processData(buildDataPacket(1, 0, 1, 0));
+    expect(events).toEqual(['step 0_0 [0,1]', 'step 0_1 [0,1]', 'scan']);
+  });
+
+  it('should not report steps with channels missing', () => {
+    const parser = new UltrasonicDataParser({ scanTimeoutMs: 0 });
+    const onStepComplete = vi.fn();
+    parser.onStepComplete = onStepComplete;
+
+    parser.processData(buildMetadataPacket(1, smallScan));
+    parser.processData(buildDataPacket(1, 0, 0, 0));
+    parser.processData(buildMetadataPacket(2, smallScan));
+    parser.processData(buildDataPacket(2, 0, 0, 1));
+
+    expect(onStepComplete).not.toHaveBeenCalled();
+  });
+});
+
+describe('scan timing', () => {
+  it('should stamp packets and summarize the timing of a scan', () => {
+    const parser = new UltrasonicDataParser({ scanTimeoutMs: 0 });
+    const onDataPacketReceived = vi.fn();
+    const onScanComplete = vi.fn();
+    parser.onDataPacketReceived = onDataPacketReceived;
+    parser.onScanComplete = onScanComplete;
+
+    parser.processData(buildMetadataPacket(1, smallScan), 1000);
+    parser.processData(buildDataPacket(1, 0, 0, 0), 1050);
+    parser.processData(buildDataPacket(1, 0, 0, 1), 1060);
+    parser.processData(buildDataPacket(1, 0, 1, 0), 1200);
+    parser.processData(buildDataPacket(1, 0, 1, 1), 1210);
+
+    expect(onDataPacketReceived.mock.calls[2][0].receivedAt).toBe(1200);
+    // 4 data packets of 24 bytes payload in 40 byte frames
+    expect(onScanComplete.mock.calls[0][0].timing).toEqual({
+      startedAt: 1000,
+      endedAt: 1210,
+      durationMs: 210,
+      firstPacketDelayMs: 50,
+      maxGapMs: 140,
+      bytes: 160,
+      bytesPerSecond: (160 * 1000) / 210,
+    });
+  });
+
+  it('should take receive times from the clock option', () => {
+    vi.useFakeTimers();
+    let time = 500;
+    const parser = new UltrasonicDataParser({
+      scanTimeoutMs: 1000,
+      now: () => time,
+    });
+    const onScanComplete = vi.fn();
+    parser.onScanComplete = onScanComplete;
+
+    parser.processData(buildMetadataPacket(1, smallScan));
+    time = 2000;
+    vi.advanceTimersByTime(1000);
+    vi.useRealTimers();
+
+    // no data packet arrived
+    expect(onScanComplete.mock.calls[0][0].timing).toEqual({
+      startedAt: 500,
+      endedAt: 500,
+      durationMs: 0,
+      firstPacketDelayMs: undefined,
+      maxGapMs: 0,
+      bytes: 0,
+      bytesPerSecond: 0,
+    });
+  });
+});
+
+describe('metadata validation', () => {
+  it('should reject invalid metadata with field errors', () => {
+    const parser = new UltrasonicDataParser({ scanTimeoutMs: 0 });
+    const onConfig = vi.fn();
+    const onParseError = vi.fn();
+    parser.onConfig = onConfig;
+    parser.onParseError = onParseError;
+
+    parser.processData(
+      buildMetadataPacket(1, {
+        ...smallScan,
+        angles: [{ degree: 90, steps: [0] }],
+      })
+    );
+    parser.processData(buildMetadataPacket(2, { name: 'empty' }));
+
+    expect(onConfig).not.toHaveBeenCalled();
+    expect(onParseError.mock.calls.map(call => call[0])).toEqual([
+      'Invalid metadata, angles[0].degree: expected an integer from -45 to 45, got 90',
+      'Invalid metadata, captureStartUs: expected an even integer from 20 to 198, got nothing',
+      'Invalid metadata, captureEndUs: expected an even integer from 22 to 200, got nothing',
+      'Invalid metadata, angles: expected an array of 1 to 91 elements, got nothing',
+    ]);
+    expect(parser.getStats().jsonFailures).toBe(2);
+
+    // data of the rejected scan has no scan to go to
+    parser.processData(buildDataPacket(1, 0, 0, 0));
+    expect(parser.getStats().outOfScanPackets).toBe(1);
+  });
+
+  it('should keep unknown metadata fields in the config', () => {
+    const parser = new UltrasonicDataParser({ scanTimeoutMs: 0 });
+    const onConfig = vi.fn();
+    parser.onConfig = onConfig;
+
+    parser.processData(buildMetadataPacket(1, { ...smallScan, firmware: 2 }));
+
+    expect(onConfig.mock.calls[0][0].extra).toEqual({ firmware: 2 });
+  });
+
+  it('should keep angles, masks, pattern and the raw document', () => {
+    const parser = new UltrasonicDataParser({ scanTimeoutMs: 0 });
+    const onConfig = vi.fn();
+    const onScanComplete = vi.fn();
+    parser.onConfig = onConfig;
+    parser.onScanComplete = onScanComplete;
+
+    const jconf = {
+      ...smallScan,
+      angles: [{ degree: -10, steps: [0x0000ffff, 0xffff0000] }],
+      pattern: [[5, 2]],
+      repeat: 2,
+      tail: 5,
+    };
+    parser.processData(buildMetadataPacket(1, jconf));
+
+    const config = onConfig.mock.calls[0][0];
+    expect(config.angles).toEqual([
+      {
+        label: '-10 degrees',
+        degree: -10,
+        numSteps: 2,
+        masks: [0x0000ffff, 0xffff0000],
+      },
+    ]);
+    expect(config.pattern).toEqual([[5, 2]]);
+    expect(config.repeat).toBe(2);
+    expect(config.tail).toBe(5);
+    expect(config.extra).toEqual({});
+    expect(config.raw).toEqual(jconf);
+
+    for (let step = 0; step < 2; step++) {
+      for (let channel = 0; channel < 2; channel++) {
+        parser.processData(buildDataPacket(1, 0, step, channel));
+      }
+    }
+    expect(onScanComplete.mock.calls[0][0].angles[0].degree).toBe(-10);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { ByteRingBuffer } from '../src/ring-buffer';
+
+describe('ByteRingBuffer', () => {
+  it('should read back written bytes across writes', () => {
+    const buffer = new ByteRingBuffer(8);
+    buffer.write(new Uint8Array([1, 2, 3]));
+    buffer.write(new Uint8Array([4, 5]));
+    expect(buffer.length).toBe(5);
+    expect(Array.from(buffer.peek(1, 3))).toStrictEqual([2, 3, 4]);
+  });
+
+  it('should compact instead of growing when bytes were consumed', () => {
+    const buffer = new ByteRingBuffer(8);
+    buffer.write(new Uint8Array([1, 2, 3, 4, 5, 6]));
+    buffer.skip(4);
+    buffer.write(new Uint8Array([7, 8, 9, 10]));
+    expect(buffer.length).toBe(6);
+    expect(Array.from(buffer.peek(0, 6))).toStrictEqual([5, 6, 7, 8, 9, 10]);
+    expect(buffer.peek(0, 6).buffer.byteLength).toBe(8);
+  });
+
+  it('should grow when unread bytes do not fit', () => {
+    const buffer = new ByteRingBuffer(4);
+    buffer.write(new Uint8Array([1, 2, 3]));
+    buffer.write(new Uint8Array([4, 5, 6, 7, 8, 9]));
+    expect(buffer.length).toBe(9);
+    expect(Array.from(buffer.peek(0, 9))).toStrictEqual([
+      1, 2, 3, 4, 5, 6, 7, 8, 9,
+    ]);
+  });
+
+  it('should read little-endian uint32', () => {
+    const buffer = new ByteRingBuffer();
+    buffer.write(new Uint8Array([0, 0xa5, 0xa5, 0xa5, 0xa5, 0x78, 0x56]));
+    expect(buffer.peekUint32(1)).toBe(0xa5a5a5a5);
+    expect(buffer.peekUint32(3)).toBe(0x5678a5a5);
+  });
+
+  it('should find a pattern relative to the read cursor', () => {
+    const buffer = new ByteRingBuffer();
+    const pattern = new Uint8Array([0xa5, 0xa5]);
+    buffer.write(new Uint8Array([0xa5, 0, 0xa5, 1, 0xa5, 0xa5]));
+    expect(buffer.indexOf(pattern)).toBe(4);
+    buffer.skip(2);
+    expect(buffer.indexOf(pattern)).toBe(2);
+    expect(buffer.indexOf(pattern, 3)).toBe(-1);
+  });
+
+  it('should reset cursors when drained', () => {
+    const buffer = new ByteRingBuffer(4);
+    buffer.write(new Uint8Array([1, 2, 3, 4]));
+    buffer.skip(4);
+    expect(buffer.length).toBe(0);
+    buffer.write(new Uint8Array([5, 6, 7, 8]));
+    expect(buffer.peek(0, 4).byteOffset).toBe(0);
+  });
+});
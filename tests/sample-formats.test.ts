@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getSampleDecoder,
+  registerSampleDecoder,
+  unpack12BitSamples,
+  unpackInt16LESamples,
+  unpackUint8Samples,
+  SAMPLE_FORMAT_PACKED_10BIT,
+  SAMPLE_FORMAT_PACKED_12BIT,
+  SAMPLE_FORMAT_INT16_LE,
+  SAMPLE_FORMAT_UINT8,
+} from '../src/sample-formats';
+
+describe('sample decoders', () => {
+  it('should unpack 12-bit samples, 2 in 3 bytes', () => {
+    // 0x001 and 0xfff, then 0x800 and 0x7ff
+    const bytes = new Uint8Array([0x01, 0xf0, 0xff, 0x00, 0xf8, 0x7f, 0xaa]);
+    expect(Array.from(unpack12BitSamples(bytes))).toStrictEqual([
+      1 - 2048,
+      0xfff - 2048,
+      0,
+      -1,
+    ]);
+  });
+
+  it('should read signed 16-bit little-endian samples at any offset', () => {
+    const bytes = new Uint8Array([0xff, 0x18, 0xfc, 0xe8, 0x03, 0x00]);
+    expect(Array.from(unpackInt16LESamples(bytes.subarray(1)))).toStrictEqual([
+      -1000, 1000,
+    ]);
+  });
+
+  it('should center unsigned 8-bit samples', () => {
+    const bytes = new Uint8Array([0, 127, 128, 255]);
+    expect(Array.from(unpackUint8Samples(bytes))).toStrictEqual([
+      -128, -1, 0, 127,
+    ]);
+  });
+
+  it('should look up decoders by format byte', () => {
+    expect(getSampleDecoder(SAMPLE_FORMAT_PACKED_10BIT)?.adcBits).toBe(10);
+    expect(getSampleDecoder(SAMPLE_FORMAT_PACKED_12BIT)?.adcBits).toBe(12);
+    expect(getSampleDecoder(SAMPLE_FORMAT_INT16_LE)?.adcBits).toBe(16);
+    expect(getSampleDecoder(SAMPLE_FORMAT_UINT8)?.adcBits).toBe(8);
+    expect(getSampleDecoder(0xee)).toBeUndefined();
+  });
+
+  it('should accept new decoders', () => {
+    registerSampleDecoder({
+      format: 0xee,
+      name: 'test',
+      adcBits: 4,
+      decode: chunk => Int16Array.from(chunk, x => x & 0x0f),
+    });
+    const decoder = getSampleDecoder(0xee);
+    expect(
+      Array.from(decoder?.decode(new Uint8Array([0x1f])) ?? [])
+    ).toStrictEqual([15]);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { saveScanData, scanDataFromComplete } from '../src/saveScanData';
+import type { CompleteScanData } from '../src/parser';
+
+const scan: CompleteScanData = {
+  scanId: 7,
+  config: {
+    name: 'saved',
+    captureStartUs: 40,
+    captureEndUs: 80,
+    angles: [{ label: '0 degrees', degree: 0, numSteps: 1, masks: [1] }],
+    numAngles: 1,
+    totalSteps: 1,
+    rxApodization: [1, 1],
+    numChannels: 2,
+    activeChannels: [0, 1],
+    sampleFormat: 'packed10',
+    adcBits: 10,
+    extra: {},
+    raw: {},
+  },
+  angles: [
+    {
+      index: 0,
+      label: '0 degrees',
+      degree: 0,
+      steps: [
+        {
+          index: 0,
+          channels: [
+            { index: 0, samples: Int16Array.from([1, 2]) },
+            { index: 1, samples: Int16Array.from([3, 4]) },
+          ],
+        },
+      ],
+    },
+  ],
+  partial: false,
+  missing: [],
+  reason: 'complete',
+  timing: {
+    startedAt: 100,
+    endedAt: 150,
+    durationMs: 50,
+    firstPacketDelayMs: 10,
+    maxGapMs: 20,
+    bytes: 1000,
+    bytesPerSecond: 20000,
+  },
+};
+
+describe('saving scans', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rongbuk-'));
+    vi.spyOn(process, 'cwd').mockReturnValue(dir);
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should save a completed scan with its timing', () => {
+    const timestamp = new Date(2024, 4, 6, 12, 30, 5).getTime();
+    saveScanData({
+      ...scanDataFromComplete(scan, timestamp),
+      device: 'rongbuk-6767b0',
+    });
+
+    const folder = path.join(
+      dir,
+      'data',
+      'scan-rongbuk-6767b0-20240506-123005'
+    );
+    expect(
+      JSON.parse(fs.readFileSync(path.join(folder, 'timing.json'), 'utf8'))
+    ).toEqual(scan.timing);
+    const config = JSON.parse(
+      fs.readFileSync(path.join(folder, 'config.json'), 'utf8')
+    );
+    expect(config.scanId).toBe(7);
+    expect(config.scanConfig.name).toBe('saved');
+    expect(
+      fs.readFileSync(path.join(folder, 'angle_0', 'step_0.csv'), 'utf8')
+    ).toBe('sample_index,channel_0,channel_1\n1,1,3\n2,2,4');
+  });
+});
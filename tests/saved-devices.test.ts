@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { SavedDevices, deviceFromAddress } from '../src/saved-devices';
+
+describe('saved devices', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'saved-devices-'));
+    file = path.join(dir, 'devices.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should name devices by host, with the port unless it is the default', () => {
+    expect(deviceFromAddress({ host: '192.168.1.20', port: 7332 })).toEqual({
+      connectionState: 'DISCONNECTED',
+      name: '192.168.1.20',
+      location: ['192.168.1.20'],
+      port: 7332,
+      saved: true,
+    });
+    expect(deviceFromAddress({ host: 'rongbuk.lan', port: 8000 }).name).toBe(
+      'rongbuk.lan:8000'
+    );
+    expect(deviceFromAddress({ host: 'fe80::1', port: 8000 }).name).toBe(
+      '[fe80::1]:8000'
+    );
+  });
+
+  it('should keep added devices across instances', () => {
+    const saved = new SavedDevices(file);
+    expect(saved.list()).toEqual([]);
+
+    saved.add({ host: '10.0.0.5', port: 7332 });
+    saved.add({ host: '10.0.0.5', port: 7332 });
+    saved.add({ host: '10.0.0.6', port: 9000 });
+    expect(saved.list().map(x => x.name)).toEqual([
+      '10.0.0.5',
+      '10.0.0.6:9000',
+    ]);
+
+    saved.remove('10.0.0.5');
+    expect(new SavedDevices(file).list().map(x => x.name)).toEqual([
+      '10.0.0.6:9000',
+    ]);
+  });
+
+  it('should ignore a broken file', () => {
+    fs.writeFileSync(file, '[{"host": "10.0.0.5"');
+    expect(new SavedDevices(file).list()).toEqual([]);
+
+    fs.writeFileSync(file, '[{"host": "10.0.0.5", "port": 7332}, {"port": 1}]');
+    expect(new SavedDevices(file).list().map(x => x.name)).toEqual([
+      '10.0.0.5',
+    ]);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { SerialPortMock } from 'serialport';
+
+import { SerialTransport } from '../src/serial-transport';
+import { UltrasonicDataParser } from '../src/parser';
+import type { CompleteScanData, ScanConfig } from '../src/parser';
+import { encodeScan } from '../src/encoder';
+
+const PATH = '/dev/ttyRONGBUK';
+
+const connect = (transport: SerialTransport) =>
+  new Promise<void>((resolve, reject) => {
+    transport.onConnect = resolve;
+    transport.onError = reject;
+    transport.connect();
+  });
+
+// the SerialPortMock opened by `transport`
+const portOf = (transport: SerialTransport): SerialPortMock =>
+  (transport as unknown as { port: SerialPortMock }).port;
+
+describe('serial transport', () => {
+  afterEach(() => {
+    SerialPortMock.binding.reset();
+  });
+
+  const config: ScanConfig = {
+    name: 'serial',
+    captureStartUs: 40,
+    captureEndUs: 80,
+    angles: [{ label: '0 degrees', degree: 0, numSteps: 2, masks: [1, 2] }],
+    numAngles: 1,
+    totalSteps: 2,
+    rxApodization: [1, 1],
+    numChannels: 2,
+    activeChannels: [0, 1],
+    sampleFormat: 'packed10',
+    adcBits: 10,
+    extra: {},
+    raw: {},
+  };
+
+  it('should open the port at the given baud rate', async () => {
+    SerialPortMock.binding.createPort(PATH);
+    const transport = new SerialTransport(PATH, 921600, SerialPortMock);
+
+    await connect(transport);
+
+    expect(transport.isOpen).toBe(true);
+    expect(portOf(transport).baudRate).toBe(921600);
+
+    const closed = new Promise<void>(resolve => {
+      transport.onClose = resolve;
+    });
+    transport.close();
+    await closed;
+    expect(transport.isOpen).toBe(false);
+  });
+
+  it('should feed received bytes to the parser', async () => {
+    SerialPortMock.binding.createPort(PATH);
+    const transport = new SerialTransport(PATH, 115200, SerialPortMock);
+    const parser = new UltrasonicDataParser({ scanTimeoutMs: 0 });
+    transport.onData = data => parser.processData(data);
+    const scan = new Promise<CompleteScanData>(resolve => {
+      parser.onScanComplete = resolve;
+    });
+
+    await connect(transport);
+
+    const binding = portOf(transport).port;
+    for (const packet of encodeScan(3, config, () => new Int16Array(16))) {
+      binding?.emitData(Buffer.from(packet));
+    }
+
+    const data = await scan;
+    expect(data.scanId).toBe(3);
+    expect(data.partial).toBe(false);
+    transport.close();
+  });
+
+  it('should write scan configs to the port', async () => {
+    SerialPortMock.binding.createPort(PATH, { record: true });
+    const transport = new SerialTransport(PATH, 115200, SerialPortMock);
+
+    await connect(transport);
+
+    const line = JSON.stringify({ name: 'config' }) + '\n';
+    await transport.write(line);
+
+    expect(portOf(transport).port?.recording.toString()).toBe(line);
+    transport.close();
+  });
+
+  it('should report a port that cannot be opened', async () => {
+    const transport = new SerialTransport(PATH, 115200, SerialPortMock);
+
+    // no port created at PATH
+    await expect(connect(transport)).rejects.toThrow(PATH);
+    expect(transport.isOpen).toBe(false);
+    await expect(transport.write('{}\n')).rejects.toThrow('not open');
+  });
+});
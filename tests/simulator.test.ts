@@ -0,0 +1,214 @@
+import { describe, it, expect, afterEach } from 'vitest';
+
+import { RongbukSimulator, scanConfigFromJson } from '../src/simulator';
+import type { SimulatorOptions } from '../src/simulator';
+import { ConnectionManager } from '../src/connection-manager';
+import { probeTcp } from '../src/tcp-transport';
+import { UltrasonicDataParser } from '../src/parser';
+import type { CompleteScanData } from '../src/parser';
+import type { RongbukDevice } from '../src/types/devices';
+
+// as ControlPanel submits it
+const jsonConfig = {
+  version: '1.0',
+  name: 'simulated',
+  angles: [
+    { degree: -10, masks: [1, 2] },
+    { degree: 10, masks: [4] },
+  ],
+  pattern: [[5, 2]],
+  repeat: 1,
+  tail: 1,
+  startUs: 40,
+  endUs: 60,
+  txApodization: [] as number[][],
+  rxApodization: [1, 1, 1, 1, 0, 0, 1, 1],
+};
+
+describe('simulator', () => {
+  let simulator: RongbukSimulator | null = null;
+  let connection: ConnectionManager | null = null;
+
+  afterEach(async () => {
+    connection?.disconnect();
+    connection?.parser.reset();
+    connection = null;
+    await simulator?.stop();
+    simulator = null;
+  });
+
+  // connects a parser to a simulator on a free local port, resolves with
+  // the scan it sends for jsonConfig
+  const scan = async (options: SimulatorOptions) => {
+    simulator = new RongbukSimulator({
+      port: 0,
+      host: '127.0.0.1',
+      advertise: false,
+      ...options,
+    });
+    const port = await simulator.start();
+    const parser = new UltrasonicDataParser({
+      scanTimeoutMs: 100,
+      maxRetransmitRequests: 8,
+    });
+    connection = new ConnectionManager(parser);
+    const device: RongbukDevice = {
+      connectionState: 'DISCONNECTED',
+      name: simulator.name,
+      location: ['127.0.0.1'],
+      port,
+    };
+
+    const errors: string[] = [];
+    parser.onParseError = error => errors.push(error);
+    const data = await new Promise<CompleteScanData>(resolve => {
+      parser.onScanComplete = resolve;
+      connection.onStateChange = ({ connectionState }) => {
+        if (connectionState === 'CONNECTED') {
+          connection.write(JSON.stringify(jsonConfig) + '\n');
+        }
+      };
+      connection.connect(device);
+    });
+    return { data, errors, stats: parser.getStats() };
+  };
+
+  it('should describe the scan of a submitted config', () => {
+    const config = scanConfigFromJson(jsonConfig);
+    expect(config.totalSteps).toBe(3);
+    expect(config.activeChannels).toEqual([0, 1, 2, 3, 6, 7]);
+    expect(config.angles[0]).toEqual({
+      label: '-10 degrees',
+      degree: -10,
+      numSteps: 2,
+      masks: [1, 2],
+    });
+    expect(() => scanConfigFromJson({ command: 'status' })).toThrow(
+      'not a scan config'
+    );
+  });
+
+  it('should answer a config with a scan of synthetic echoes', async () => {
+    const { data, errors } = await scan({ seed: 1 });
+
+    expect(errors).toEqual([]);
+    expect(data.partial).toBe(false);
+    expect(data.config.name).toBe('simulated');
+    expect(data.config.captureStartUs).toBe(40);
+    const step = data.angles[1].steps[0];
+    expect(step.channels.map(channel => channel.index)).toEqual([
+      0, 1, 2, 3, 6, 7,
+    ]);
+    // 20 us at 20 samples per us, with an echo well above the noise
+    const { samples } = step.channels[0];
+    expect(samples).toHaveLength(400);
+    expect(Math.max(...samples)).toBeGreaterThan(200);
+  });
+
+  // connects `connection` to a simulator on a free local port, without
+  // scanning. resolves with the parser of the connection.
+  const connectToSimulator = async () => {
+    simulator = new RongbukSimulator({
+      port: 0,
+      host: '127.0.0.1',
+      advertise: false,
+    });
+    const port = await simulator.start();
+    const parser = new UltrasonicDataParser({ scanTimeoutMs: 0 });
+    connection = new ConnectionManager(parser);
+    await new Promise<void>(resolve => {
+      connection.onStateChange = ({ connectionState }) => {
+        if (connectionState === 'CONNECTED') resolve();
+      };
+      connection.connect({
+        connectionState: 'DISCONNECTED',
+        name: simulator.name,
+        location: ['127.0.0.1'],
+        port,
+      });
+    });
+    return parser;
+  };
+
+  it('should accept valid configs and say why others are refused', async () => {
+    await connectToSimulator();
+
+    expect(await connection.request(jsonConfig)).toMatchObject({
+      status: 'accepted',
+    });
+    const refused = await connection.request({ ...jsonConfig, startUs: 70 });
+    expect(refused.status).toBe('rejected');
+    expect(refused.error).toContain('captureEndUs');
+  });
+
+  it('should refuse lines that are not configs or commands', async () => {
+    const parser = await connectToSimulator();
+    const logs: string[] = [];
+    parser.onDeviceLog = text => logs.push(text);
+
+    await connection.write('null\n');
+    await connection.write('[1, 2]\n');
+    // still answering
+    expect(await connection.request(jsonConfig)).toMatchObject({
+      status: 'accepted',
+    });
+    expect(logs).toEqual([
+      'not a config or command: null',
+      'not a config or command: [1, 2]',
+    ]);
+  });
+
+  it('should refuse retransmit requests for packets not in the scan', async () => {
+    await connectToSimulator();
+    await connection.request(jsonConfig);
+    const retransmit = (packets: unknown) =>
+      connection.request({ command: 'retransmit', scanId: 1, packets });
+
+    // 2 angles, the second with 1 step, channels 4 and 5 are not active
+    expect(await retransmit([[2, 0, 0]])).toMatchObject({
+      status: 'rejected',
+      error: 'no packet 2_0_0 in the scan',
+    });
+    expect(await retransmit([[1, 1, 0]])).toMatchObject({
+      status: 'rejected',
+      error: 'no packet 1_1_0 in the scan',
+    });
+    expect(await retransmit([[0, 0, 4]])).toMatchObject({
+      status: 'rejected',
+      error: 'no packet 0_0_4 in the scan',
+    });
+    expect(await retransmit([[0, 0]])).toMatchObject({ status: 'rejected' });
+    expect(await retransmit(null)).toMatchObject({ status: 'rejected' });
+    expect(await retransmit([[0, 1, 7]])).toMatchObject({
+      status: 'accepted',
+    });
+  });
+
+  it('should close a server stopped while starting', async () => {
+    const stopped = new RongbukSimulator({
+      port: 0,
+      host: '127.0.0.1',
+      advertise: false,
+    });
+    const started = stopped.start();
+    await stopped.stop();
+    const port = await started;
+
+    expect(stopped.port).toBe(0);
+    await expect(probeTcp('127.0.0.1', port, 1000)).rejects.toThrow();
+  });
+
+  it('should recover lost and corrupted packets by retransmission', async () => {
+    const { data, stats } = await scan({
+      seed: 2,
+      lossRate: 0.2,
+      corruptRate: 0.2,
+      packetDelayMs: 1,
+    });
+
+    expect(stats.crcFailures).toBeGreaterThan(0);
+    expect(stats.retransmitRequests).toBeGreaterThan(0);
+    expect(data.partial).toBe(false);
+    expect(data.missing).toEqual([]);
+  });
+});
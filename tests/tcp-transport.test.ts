@@ -0,0 +1,79 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as net from 'net';
+import type { AddressInfo } from 'net';
+
+import { TcpTransport, probeTcp } from '../src/tcp-transport';
+
+describe('tcp transport', () => {
+  let server: net.Server | null = null;
+
+  // a device on localhost, `onSocket` gets the accepted connection
+  const listen = (onSocket: (socket: net.Socket) => void) =>
+    new Promise<number>(resolve => {
+      server = net.createServer(onSocket);
+      server.listen(0, '127.0.0.1', () =>
+        resolve((server?.address() as AddressInfo).port)
+      );
+    });
+
+  const stop = () =>
+    new Promise<void>(resolve => {
+      if (server) server.close(() => resolve());
+      else resolve();
+      server = null;
+    });
+
+  afterEach(stop);
+
+  it('should exchange data with the device and report its close', async () => {
+    const port = await listen(socket => {
+      socket.write(Buffer.from([1, 2, 3]));
+      socket.on('data', data => {
+        socket.end(data); // echo, then hang up
+      });
+    });
+    const transport = new TcpTransport('127.0.0.1', port);
+    const received: number[] = [];
+    transport.onData = data => received.push(...data);
+    const closed = new Promise<void>(resolve => {
+      transport.onClose = resolve;
+    });
+
+    await new Promise<void>(resolve => {
+      transport.onConnect = resolve;
+      transport.connect();
+    });
+    expect(transport.description).toBe(`127.0.0.1:${port}`);
+    await transport.write('{}\n');
+    await closed;
+
+    expect(received).toEqual([1, 2, 3, ...Buffer.from('{}\n')]);
+    await expect(transport.write('{}\n')).rejects.toThrow('not connected');
+  });
+
+  it('should report a refused connection as an error only', async () => {
+    // nothing listens on a port just freed
+    const port = await listen(socket => socket.destroy());
+    await stop();
+
+    const transport = new TcpTransport('127.0.0.1', port);
+    let closed = false;
+    transport.onClose = () => (closed = true);
+    const error = await new Promise<Error>(resolve => {
+      transport.onError = resolve;
+      transport.connect();
+    });
+
+    expect(error.message).toMatch('ECONNREFUSED');
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(closed).toBe(false);
+  });
+
+  it('should probe whether a device answers', async () => {
+    const port = await listen(socket => socket.destroy());
+    await expect(probeTcp('127.0.0.1', port)).resolves.toBeUndefined();
+
+    await stop();
+    await expect(probeTcp('127.0.0.1', port)).rejects.toThrow('ECONNREFUSED');
+  });
+});